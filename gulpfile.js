@@ -104,6 +104,7 @@ async function scripts() {
 			'src/dynamic/marked.ts',
 			'src/dynamic/pluginTemplate.ts',
 			'src/windows/main/index.tsx',
+			'src/windows/headless/index.ts',
 		],
 		external: [
 			'electron',
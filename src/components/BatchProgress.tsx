@@ -1,7 +1,7 @@
 import {h, RenderableProps} from 'preact';
 import {useRef, useEffect} from 'preact/hooks';
 import {reaction} from 'statin';
-import {throttle, clamp} from 'lib/utils';
+import {throttle, clamp, formatSize, formatSizeDelta, formatPercentDelta} from 'lib/utils';
 import {observeElementSize} from 'lib/elementSize';
 import {useStore} from 'models/store';
 import {Batch, BatchItem} from 'models/profiles';
@@ -51,6 +51,20 @@ export function BatchProgress({class: className, batch, tooltip, label}: BatchPr
 	const completed = completedCount / itemsCount;
 	const isDone = completedCount === itemsCount;
 	const isIdle = itemsCount === 0;
+	const inputSize = batch.inputSize();
+	const outputSize = batch.outputSize();
+	const hasSizes = inputSize > 0 || outputSize > 0;
+	const sizesDelta = formatSizeDelta(inputSize, outputSize);
+	const sizesTooltip = hasSizes
+		? `Inputs: ${formatSize(inputSize)}, outputs: ${formatSize(outputSize)}, ${sizesDelta}`
+		: null;
+	const title = [tooltip, sizesTooltip].filter(Boolean).join('\n') || undefined;
+	const renderCenter = () => (
+		<div class="center">
+			{label || (isIdle ? 'idle' : itemsCount)}
+			{inputSize > 0 && <span class="delta"> {formatPercentDelta(inputSize, outputSize)}</span>}
+		</div>
+	);
 
 	useEffect(() => {
 		const canvas = canvasRef.current;
@@ -134,10 +148,10 @@ export function BatchProgress({class: className, batch, tooltip, label}: BatchPr
 	if (isIdle) classNames += ' -idle';
 
 	return (
-		<div class={classNames} title={tooltip} ref={containerRef}>
+		<div class={classNames} title={title} ref={containerRef}>
 			<div class="labels">
 				{!isDone && <div class="left">{completedCount}</div>}
-				<div class="center">{label || (isIdle ? 'idle' : itemsCount)}</div>
+				{renderCenter()}
 				{!isDone && <div class="right">{itemsCount - completedCount}</div>}
 			</div>
 			<div
@@ -146,7 +160,7 @@ export function BatchProgress({class: className, batch, tooltip, label}: BatchPr
 			>
 				<canvas ref={canvasRef} />
 				{!isDone && <div class="left">{completedCount}</div>}
-				<div class="center">{label || (isIdle ? 'idle' : itemsCount)}</div>
+				{renderCenter()}
 				{!isDone && <div class="right">{itemsCount - completedCount}</div>}
 			</div>
 		</div>
@@ -8,7 +8,7 @@ import {Icon} from 'components/Icon';
 export type StringProps = RenderableProps<{
 	id?: string;
 	name?: string;
-	type?: 'text' | 'number' | 'path';
+	type?: 'text' | 'number' | 'path' | 'datetime-local';
 	placeholder?: string | number;
 	value?: string | number;
 	class?: string;
@@ -3,12 +3,13 @@ import {shell, clipboard, ipcRenderer} from 'electron';
 import {h, RefObject} from 'preact';
 import {useState} from 'preact/hooks';
 import {observer} from 'statin-preact';
-import {formatSize, prevented, reportIssue} from 'lib/utils';
+import {formatSize, formatSizeDelta, prevented, reportIssue} from 'lib/utils';
 import {ContextMenus} from 'lib/contextMenus';
 import {Icon, ICONS, IconName} from 'components/Icon';
 import {Action} from 'components/Actions';
 import {VirtualList} from 'components/VirtualList';
 import {useStore} from 'models/store';
+import {getItemSizes, OUTPUTS_DRAG_TYPE} from 'models/items';
 import type {Item as ItemModel} from 'models/items';
 import type {Item as RawItemModel} from '@drovp/types';
 import {ItemTitle} from './ItemTitle';
@@ -25,6 +26,9 @@ export const Items = observer(function Items({
 	reversed,
 	profileTitles,
 	toOperationLinks,
+	selected,
+	onSelect,
+	onPreview,
 }: {
 	items: (() => (ItemModel | RawItemModel)[]) | (ItemModel | RawItemModel)[];
 	innerRef?: RefObject<HTMLDivElement>;
@@ -33,9 +37,25 @@ export const Items = observer(function Items({
 	reversed?: boolean;
 	profileTitles?: boolean;
 	toOperationLinks?: boolean;
+	/** IDs of selected items. Selection is enabled only for file and directory items. */
+	selected?: Set<string>;
+	onSelect?: (item: ItemModel | RawItemModel, event: MouseEvent) => void;
+	onPreview?: (item: ItemModel | RawItemModel) => void;
 }) {
 	let classNames = 'Items';
 	if (className) classNames += ` ${className}`;
+	const allItems = Array.isArray(items) ? items : items();
+	const selecting = selected != null && selected.size > 0;
+
+	// Dragging one of the selected items drags all of them
+	const selectedPaths: string[] = [];
+	if (selecting) {
+		for (const item of allItems) {
+			if (selected.has(item.id) && (item.kind === 'file' || item.kind === 'directory')) {
+				selectedPaths.push(item.path);
+			}
+		}
+	}
 
 	return (
 		<VirtualList
@@ -43,10 +63,23 @@ export const Items = observer(function Items({
 			class={classNames}
 			style={style}
 			reversed={reversed}
-			items={Array.isArray(items) ? items : items()}
-			render={(item) => (
-				<Item key={item.id} item={item} profileTitle={profileTitles} toOperationLinks={toOperationLinks} />
-			)}
+			items={allItems}
+			render={(item) => {
+				const isSelected = selected?.has(item.id) || false;
+				return (
+					<Item
+						key={item.id}
+						item={item}
+						profileTitle={profileTitles}
+						toOperationLinks={toOperationLinks}
+						selected={isSelected}
+						selecting={selecting}
+						onSelect={onSelect}
+						onPreview={onPreview}
+						dragPaths={isSelected ? selectedPaths : undefined}
+					/>
+				);
+			}}
 		/>
 	);
 });
@@ -55,10 +88,20 @@ export function Item({
 	item,
 	profileTitle: displayProfileTitle,
 	toOperationLinks,
+	selected,
+	selecting,
+	onSelect,
+	onPreview,
+	dragPaths,
 }: {
 	item: ItemModel | RawItemModel;
 	profileTitle?: boolean;
 	toOperationLinks?: boolean;
+	selected?: boolean;
+	selecting?: boolean;
+	onSelect?: (item: ItemModel | RawItemModel, event: MouseEvent) => void;
+	onPreview?: (item: ItemModel | RawItemModel) => void;
+	dragPaths?: string[];
 }) {
 	const {modals, history} = useStore();
 	let classNames = `Item -${item.kind}`;
@@ -68,6 +111,18 @@ export function Item({
 	const handleEnter = () => setShowActions(true);
 	const handleLeave = () => setShowActions(false);
 
+	// Modifier clicks, or any clicks while something is selected, toggle
+	// selection instead of opening the item
+	function handleOpen(event: MouseEvent, open: () => void) {
+		if (onSelect && (selecting || event.ctrlKey || event.metaKey || event.shiftKey)) onSelect(item, event);
+		else open();
+	}
+
+	// Output items can be dragged onto profiles to be processed again
+	function setOutputDragData(event: DragEvent) {
+		if (operation) event.dataTransfer?.setData(OUTPUTS_DRAG_TYPE, JSON.stringify([item.id]));
+	}
+
 	function showContextMenu(event: MouseEvent) {
 		event.preventDefault();
 		event.stopPropagation();
@@ -115,17 +170,25 @@ export function Item({
 				<Icon name="operation" />
 			</button>
 		) : undefined;
+	const previewButton =
+		onPreview && showActions ? (
+			<button onClick={prevented(() => onPreview(item))} title="Preview">
+				<Icon name="visibility" />
+			</button>
+		) : undefined;
 
 	if (item.kind === 'file') {
 		if (item.exists) {
+			if (selected) classNames += ' -selected';
+			const sizes = 'operation' in item ? getItemSizes(item) : null;
 			classNames += ' -info';
 			return (
 				<button
 					class={classNames}
 					onContextMenu={showContextMenu}
 					draggable
-					onDragStart={prevented(() => ipcRenderer.send('start-drag', item.path))}
-					onClick={() => shell.openPath(item.path)}
+					onDragStart={prevented(() => ipcRenderer.send('start-drag', dragPaths || item.path))}
+					onClick={(event: MouseEvent) => handleOpen(event, () => shell.openPath(item.path))}
 					onPointerDown={stopPropagation}
 					onPointerEnter={handleEnter}
 					onPointerLeave={handleLeave}
@@ -139,6 +202,14 @@ export function Item({
 						<span class="meta">
 							<span class="kind">{item.type ? item.type : item.kind}</span>
 							<span class="stats">, {formatSize(item.size)}</span>
+							{sizes && (
+								<span
+									class={`delta -${sizes.outputSize > sizes.inputSize ? 'bigger' : 'smaller'}`}
+									title={`Input size: ${formatSize(sizes.inputSize)}`}
+								>
+									, {formatSizeDelta(sizes.inputSize, sizes.outputSize)}
+								</span>
+							)}
 						</span>
 					</div>
 					{showActions && (
@@ -149,6 +220,7 @@ export function Item({
 							>
 								<Icon name="folder-open" />
 							</button>
+							{previewButton}
 							{toOperationButton}
 						</div>
 					)}
@@ -181,6 +253,7 @@ export function Item({
 
 	if (item.kind === 'directory') {
 		if (item.exists) {
+			if (selected) classNames += ' -selected';
 			classNames += ' -info';
 			return (
 				<button
@@ -190,8 +263,8 @@ export function Item({
 					onPointerLeave={handleLeave}
 					onPointerDown={stopPropagation}
 					draggable
-					onDragStart={prevented(() => ipcRenderer.send('start-drag', item.path))}
-					onClick={() => shell.openPath(item.path)}
+					onDragStart={prevented(() => ipcRenderer.send('start-drag', dragPaths || item.path))}
+					onClick={(event: MouseEvent) => handleOpen(event, () => shell.openPath(item.path))}
 					title={`Open folder:\n${item.path}`}
 				>
 					<div class="content">
@@ -237,7 +310,10 @@ export function Item({
 			<button
 				class={classNames}
 				draggable
-				onDragStart={(event: DragEvent) => event.dataTransfer!.setData('text/plain', item.url)}
+				onDragStart={(event: DragEvent) => {
+					setOutputDragData(event);
+					event.dataTransfer?.setData('text/plain', item.url);
+				}}
 				onPointerEnter={handleEnter}
 				onPointerLeave={handleLeave}
 				onClick={() => shell.openExternal(item.url)}
@@ -258,6 +334,7 @@ export function Item({
 						<button onClick={prevented(() => clipboard.writeText(item.url))} title="Copy">
 							<Icon name="copy" />
 						</button>
+						{previewButton}
 						{toOperationButton}
 					</div>
 				)}
@@ -271,7 +348,10 @@ export function Item({
 			<button
 				class={classNames}
 				draggable
-				onDragStart={(event: DragEvent) => event.dataTransfer?.setData('text/plain', item.contents)}
+				onDragStart={(event: DragEvent) => {
+					setOutputDragData(event);
+					event.dataTransfer?.setData('text/plain', item.contents);
+				}}
 				onPointerEnter={handleEnter}
 				onPointerLeave={handleLeave}
 				onClick={() =>
@@ -301,6 +381,7 @@ export function Item({
 						<button onClick={prevented(() => clipboard.writeText(item.contents))} title="Copy">
 							<Icon name="copy" />
 						</button>
+						{previewButton}
 						{toOperationButton}
 					</div>
 				)}
@@ -312,6 +393,8 @@ export function Item({
 		return (
 			<article
 				class={classNames}
+				draggable={operation != null}
+				onDragStart={setOutputDragData}
 				onContextMenu={showContextMenu}
 				onPointerEnter={handleEnter}
 				onPointerLeave={handleLeave}
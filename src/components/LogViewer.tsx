@@ -0,0 +1,163 @@
+import {ipcRenderer} from 'electron';
+import {promises as FSP} from 'fs';
+import {h, RefObject} from 'preact';
+import {useEffect, useRef, useState} from 'preact/hooks';
+import {reaction} from 'statin';
+import {observer} from 'statin-preact';
+import {throttle, eem} from 'lib/utils';
+import {ansiToHtml, escapeHtml, stripAnsi} from 'lib/ansi';
+import {useStore} from 'models/store';
+import {formatLogEntries} from 'models/operations';
+import {Scrollable} from 'components/Scrollable';
+import {Select, SelectOption} from 'components/Select';
+import {Button} from 'components/Button';
+import {Icon} from 'components/Icon';
+import {Input} from 'components/Input';
+import type {Operation, OperationLogEntry} from 'models/operations';
+
+type SourceFilter = 'all' | OperationLogEntry['source'];
+
+export type LogViewerProps = {
+	operation: Operation;
+	class?: string;
+	innerRef?: RefObject<HTMLDivElement>;
+};
+
+/**
+ * Operation logs with source filtering, search, and ANSI colors. Lines are
+ * rendered as HTML strings, since logs can get big and chatty.
+ */
+export const LogViewer = observer(function LogViewer({operation, class: className, innerRef}: LogViewerProps) {
+	const {events} = useStore();
+	const containerRef = useRef<HTMLDivElement>(null);
+	const preRef = useRef<HTMLPreElement>(null);
+	const [search, setSearch] = useState('');
+	const [source, setSource] = useState<SourceFilter>('all');
+	const [follow, setFollow] = useState(true);
+	const [isSaving, setIsSaving] = useState(false);
+	const followRef = useRef(follow);
+	followRef.current = follow;
+	const trimmed = operation.logsTrimmed();
+
+	useEffect(() => {
+		const container = containerRef.current;
+		const pre = preRef.current;
+		if (!container || !pre) return;
+
+		const needle = search.trim().toLowerCase();
+		const update = throttle((lines: OperationLogEntry[]) => {
+			let html = '';
+			for (const line of lines) {
+				if (source !== 'all' && line.source !== source) continue;
+				if (needle && !stripAnsi(line.text).toLowerCase().includes(needle)) continue;
+				const time = new Date(line.time).toLocaleTimeString();
+				html += `<div class="line -${line.source}"><span class="time">${escapeHtml(time)}</span>`;
+				html += `<span class="text">${ansiToHtml(line.text) || ' '}</span></div>`;
+			}
+			pre.innerHTML = html || `<em class="empty">${needle || source !== 'all' ? 'no matches' : 'empty'}</em>`;
+			if (followRef.current) container.scrollTo({top: container.scrollHeight, left: 0});
+		}, 250);
+
+		const dispose = reaction(() => operation.logLines(), update, {immediate: true});
+
+		return () => {
+			dispose();
+			update.cancel();
+		};
+	}, [operation, search, source]);
+
+	// Scrolling up stops following the tail, scrolling back down resumes it
+	useEffect(() => {
+		const container = containerRef.current;
+		if (!container) return;
+
+		const handleScroll = () => {
+			const isAtBottom = container.scrollTop + 20 > container.scrollHeight - container.clientHeight;
+			if (isAtBottom !== followRef.current) setFollow(isAtBottom);
+		};
+
+		container.addEventListener('scroll', handleScroll);
+		return () => container.removeEventListener('scroll', handleScroll);
+	}, []);
+
+	function toggleFollow() {
+		const container = containerRef.current;
+		if (!follow && container) container.scrollTo({top: container.scrollHeight, left: 0});
+		setFollow(!follow);
+	}
+
+	async function saveFullLog() {
+		const {canceled, filePath} = (await ipcRenderer.invoke('show-save-dialog', {
+			defaultPath: `${operation.profile.displayTitle()}-${operation.id}.log`,
+			filters: [{name: 'Log', extensions: ['log', 'txt']}],
+		})) as Electron.SaveDialogReturnValue;
+
+		if (canceled || !filePath) return;
+
+		setIsSaving(true);
+		try {
+			await FSP.writeFile(filePath, formatLogEntries(await operation.getFullLog()));
+		} catch (error) {
+			events.create({variant: 'danger', title: `Saving log failed`, message: eem(error)}).open();
+		} finally {
+			setIsSaving(false);
+		}
+	}
+
+	let classNames = 'LogViewer';
+	if (className) classNames += ` ${className}`;
+
+	return (
+		<div ref={innerRef} class={classNames}>
+			<div class="controls">
+				<Select
+					class="sources"
+					transparent
+					value={source}
+					onChange={(value) => setSource(value as SourceFilter)}
+				>
+					<SelectOption value="all" tooltip="All sources">
+						all
+					</SelectOption>
+					<SelectOption value="stdout" tooltip="Process standard output">
+						stdout
+					</SelectOption>
+					<SelectOption variant="danger" value="stderr" tooltip="Process standard error output">
+						stderr
+					</SelectOption>
+					<SelectOption variant="info" value="log" tooltip="Processor's utils.log() calls">
+						log
+					</SelectOption>
+					<SelectOption variant="accent" value="app" tooltip="Messages from the app">
+						app
+					</SelectOption>
+				</Select>
+				<Input class="search" placeholder="search" value={search} onChange={setSearch} />
+				<Button
+					semitransparent
+					selected={follow}
+					onClick={toggleFollow}
+					tooltip={follow ? 'Following new lines' : 'Follow new lines'}
+				>
+					<Icon name="to-end" />
+				</Button>
+				<Button
+					semitransparent
+					loading={isSaving}
+					onClick={saveFullLog}
+					tooltip="Save full log to a file, including lines trimmed from this view"
+				>
+					<Icon name="export" />
+				</Button>
+			</div>
+			{trimmed > 0 && (
+				<div class="trimmed">
+					{trimmed} older lines trimmed to Operation Log Limit setting, save the full log to see them.
+				</div>
+			)}
+			<Scrollable class="logs" innerRef={containerRef}>
+				<pre ref={preRef} />
+			</Scrollable>
+		</div>
+	);
+});
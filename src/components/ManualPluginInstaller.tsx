@@ -165,15 +165,32 @@ export const ManualPluginInstaller = observer(function ExternalPluginInstaller({
 							<code>&lt;tarball file&gt;</code>
 						</dt>
 						<dd>
-							An absolute path to a tarball file located on your machine. The file has to start with{' '}
+							An absolute path to a tarball file located on your machine. The file has to end with{' '}
 							<code>.tar</code>, <code>.tar.gz</code>, or <code>.tgz</code> extension.
 						</dd>
 
 						<dt>
 							<code>&lt;folder&gt;</code>
 						</dt>
-						<dd>An absolute path to a folder on your machine with a plugin inside.</dd>
+						<dd>
+							<p>An absolute path to a folder on your machine with a plugin inside.</p>
+							<p>
+								If the folder is a git checkout, plugin is installed from its current commit, so
+								uncommitted changes are not included.
+							</p>
+						</dd>
 					</dl>
+
+					<p>
+						Tarball files and folders can also be dropped anywhere into the plugins section. Tarballs are
+						copied into plugins directory, so the original file can be deleted after installation.
+					</p>
+
+					<p>
+						Exact versions and integrity hashes of installed plugins are recorded into a lockfile. It can be
+						exported, and used to reproduce the same set of plugins on another machine, in the installed
+						plugins section.
+					</p>
 				</div>
 			</Scrollable>
 		</div>
@@ -2,7 +2,7 @@ import {h} from 'preact';
 import {useRef} from 'preact/hooks';
 import {observer} from 'statin-preact';
 import {useVolley} from 'lib/hooks';
-import {formatRelevantTime, formatDuration, clamp, rafThrottle} from 'lib/utils';
+import {formatRelevantTime, formatDuration, formatSize, formatSizeDelta, clamp, rafThrottle} from 'lib/utils';
 import {useStore} from 'models/store';
 import type {Operation as OperationModel} from 'models/operations';
 import {Icon} from 'components/Icon';
@@ -11,7 +11,7 @@ import {Nav, NavLink, NavLinkRelativePart} from 'components/Nav';
 import {Tag} from 'components/Tag';
 import {Vacant} from 'components/Vacant';
 import {Button} from 'components/Button';
-import {Logs} from 'components/Logs';
+import {LogViewer} from 'components/LogViewer';
 import {Items} from 'components/Items';
 import {TitleBar} from 'components/TitleBar';
 import {Scrollable} from 'components/Scrollable';
@@ -55,7 +55,8 @@ const Operation = observer(function Operation({operation, section, onSectionChan
 	const containerRef = useRef<HTMLDivElement>(null);
 	const {history, staging} = useStore();
 	const state = operation.state();
-	const isQueued = state === 'queued';
+	const isHeld = state === 'held';
+	const isQueued = state === 'queued' || isHeld;
 	const isDone = state === 'done';
 	const isPending = state === 'pending';
 	const hasError = operation.hasError();
@@ -106,6 +107,40 @@ const Operation = observer(function Operation({operation, section, onSectionChan
 					</h1>
 				)}
 
+				{isQueued && [
+					<Button
+						class="move-to-front"
+						variant="info"
+						semitransparent
+						muted
+						onClick={operation.moveToFront}
+						tooltip="Move to front of queue"
+					>
+						<Icon name="to-start" />
+					</Button>,
+					<Button
+						class="move-to-back"
+						variant="info"
+						semitransparent
+						muted
+						onClick={operation.moveToBack}
+						tooltip="Move to back of queue"
+					>
+						<Icon name="to-end" />
+					</Button>,
+					<Button
+						class="hold"
+						variant="warning"
+						semitransparent
+						muted
+						selected={isHeld}
+						onClick={operation.toggleHold}
+						tooltip={isHeld ? 'Release hold' : 'Hold'}
+					>
+						<Icon name="pause" />
+					</Button>,
+				]}
+
 				{isQueued ? (
 					<Button
 						class="force-start"
@@ -204,16 +239,24 @@ export const OperationProgress = observer(function OperationProgress({operation}
 	const progress = operation.progress();
 	const state = operation.state();
 	const hasError = operation.hasError();
+	const isHeld = state === 'held';
 	const isQueued = state === 'queued';
 	const isPending = state === 'pending';
 	const isDone = state === 'done';
+	const retryIn = operation.retryIn();
 
 	let tooltip: string | undefined | null;
 	let label: string | undefined | null;
 	let labelLeft: string | undefined | null;
 	let labelRight: string | undefined | null;
 
-	if (isQueued) {
+	if (isHeld) {
+		tooltip = 'Held in queue';
+		label = 'held';
+	} else if (isQueued && retryIn) {
+		tooltip = 'Waiting to retry after a failed run';
+		label = `retry ${operation.retries()}/${operation.profile.commonOptions.retryCount()} in ${retryIn}`;
+	} else if (isQueued) {
 		tooltip = 'Queued';
 		label = 'queued';
 	} else if (isDone) {
@@ -318,7 +361,7 @@ const InputsOutputs = observer(function InputsOutputs({operation}: {operation: O
 const OperationLogs = observer(function OperationLogs({operation}: {operation: OperationModel}) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	useVolley(containerRef);
-	return <Logs innerRef={containerRef} class="OperationLogs" lines={operation.logs} syncBottom />;
+	return <LogViewer innerRef={containerRef} class="OperationLogs" operation={operation} />;
 });
 
 export const OperationDetails = observer(function OperationDetails({
@@ -335,6 +378,10 @@ export const OperationDetails = observer(function OperationDetails({
 	const started = operation.started();
 	const ended = operation.ended();
 	const duration = operation.duration();
+	const timeout = profile.commonOptions.timeout();
+	const inactivityTimeout = profile.commonOptions.inactivityTimeout();
+	const sizes = operation.sizes();
+	const sizesDelta = sizes ? formatSizeDelta(sizes.inputSize, sizes.outputSize) : null;
 
 	useVolley(containerRef);
 
@@ -356,6 +403,24 @@ export const OperationDetails = observer(function OperationDetails({
 					<span class="title">State</span>
 					<span class="value">{operation.state()}</span>
 				</li>
+				<li class="runs">
+					<span class="title">Runs</span>
+					<span class="value">{operation.runs()}</span>
+				</li>
+				<li class="retries">
+					<span class="title">Retries</span>
+					<span class="value">
+						{operation.retries()}/{profile.commonOptions.retryCount()}
+					</span>
+				</li>
+				<li class="timeout">
+					<span class="title">Time limit</span>
+					<span class="value">{timeout ? formatDuration(timeout * 1000) : 'none'}</span>
+				</li>
+				<li class="inactivityTimeout">
+					<span class="title">Inactivity limit</span>
+					<span class="value">{inactivityTimeout ? formatDuration(inactivityTimeout * 1000) : 'none'}</span>
+				</li>
 				<li class="threadType">
 					<span class="title">Thread type</span>
 					<span class="value">{operation.threadTypes.join(', ')}</span>
@@ -376,6 +441,14 @@ export const OperationDetails = observer(function OperationDetails({
 					<span class="title">Duration</span>
 					<span class="value">{duration ? formatDuration(duration) : 'n/a'}</span>
 				</li>
+				<li class="sizes">
+					<span class="title">Size</span>
+					<span class="value">
+						{sizes
+							? `${formatSize(sizes.inputSize)} → ${formatSize(sizes.outputSize)}, ${sizesDelta}`
+							: 'n/a'}
+					</span>
+				</li>
 			</ul>
 
 			<div class="processor">
@@ -18,7 +18,8 @@ export const OperationCard = observer(({operation, showProfileTitle}: OperationC
 	const state = operation.state();
 	const isDone = state === 'done';
 	const isPending = state === 'pending';
-	const isQueued = state === 'queued';
+	const isHeld = state === 'held';
+	const isQueued = state === 'queued' || isHeld;
 	const hasError = operation.hasError();
 	const isBulk = operation.isBulk;
 	const stage = operation.stage();
@@ -26,6 +27,9 @@ export const OperationCard = observer(({operation, showProfileTitle}: OperationC
 	const outputsCount = operation.outputs().length;
 	const remaining = operation.remaining();
 	const humanProgress = operation.humanProgress();
+	const runs = operation.runs();
+	const retries = operation.retries();
+	const retryIn = operation.retryIn();
 	const [showActions, setShowActions] = useState(false);
 	const handleMouseEnter = () => setShowActions(true);
 	const handleMouseLeave = () => setShowActions(false);
@@ -59,7 +63,9 @@ export const OperationCard = observer(({operation, showProfileTitle}: OperationC
 					{state === 'pending' && humanProgress ? (
 						<div class="percent">{humanProgress}</div>
 					) : (
-						!stage && <div class="state">{hasError ? 'error' : state}</div>
+						!stage && (
+							<div class="state">{hasError ? 'error' : retryIn ? `retry in ${retryIn}` : state}</div>
+						)
 					)}
 				</header>
 
@@ -93,6 +99,12 @@ export const OperationCard = observer(({operation, showProfileTitle}: OperationC
 						<Icon name="notes" /> {operation.logsCount()}
 					</div>
 
+					{runs > 1 && (
+						<div class="iconValue runs" title={`Runs (${retries} automatic retries)`}>
+							<Icon name="refresh" /> {runs}
+						</div>
+					)}
+
 					<div class="spacer" />
 
 					{!isQueued && (
@@ -125,6 +137,16 @@ export const OperationCard = observer(({operation, showProfileTitle}: OperationC
 						</Button>
 					) : isQueued ? (
 						[
+							<Button
+								variant="warning"
+								transparent
+								muted
+								selected={isHeld}
+								onClick={prevented(() => operation.toggleHold())}
+								tooltip={isHeld ? 'Release hold' : 'Hold'}
+							>
+								<Icon name="pause" />
+							</Button>,
 							<Button
 								variant="info"
 								transparent
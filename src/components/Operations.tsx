@@ -8,7 +8,9 @@ import {Select, SelectOption} from 'components/Select';
 import {Button} from 'components/Button';
 import {Icon} from 'components/Icon';
 import {Vacant} from 'components/Vacant';
+import {Alert} from 'components/Alert';
 import {Outputs} from 'components/Outputs';
+import {Statistics} from 'components/Statistics';
 import {RouteProps, Redirect} from 'poutr';
 import {useStore} from 'models/store';
 import type {Operation as OperationModel} from 'models/operations';
@@ -39,19 +41,24 @@ export function OperationsRoute(props: RouteProps) {
 	const {location, history} = props;
 	const sectionRaw = location.searchParams.get('section');
 	const {operations, outputs, settings} = useStore();
-	const section = sectionRaw === 'errors' ? sectionRaw : 'all';
+	const section = sectionRaw === 'errors' || sectionRaw === 'statistics' ? sectionRaw : 'all';
 
 	return (
 		<main class="OperationsRoute">
-			<OperationsSection
-				allSignal={operations.all}
-				errorsSignal={operations.errors}
-				section={section}
-				onSection={(section) => history.push(`?section=${section}`)}
-				onClearQueue={() => operations.clearQueue()}
-				onClearHistory={() => operations.clearHistory()}
-				showProfileTitle={true}
-			/>
+			{section === 'statistics' ? (
+				<Statistics onClose={() => history.push(`?section=all`)} />
+			) : (
+				<OperationsSection
+					allSignal={operations.all}
+					errorsSignal={operations.errors}
+					section={section}
+					onSection={(section) => history.push(`?section=${section}`)}
+					onClearQueue={() => operations.clearQueue()}
+					onClearHistory={() => operations.clearHistory()}
+					showProfileTitle={true}
+					showStatistics
+				/>
+			)}
 
 			<Outputs
 				title="Outputs"
@@ -74,6 +81,7 @@ export const OperationsSection = observer(function OperationsSection({
 	onClearQueue,
 	onClearHistory,
 	showProfileTitle,
+	showStatistics,
 }: {
 	allSignal: () => OperationModel[];
 	errorsSignal: () => OperationModel[];
@@ -82,9 +90,12 @@ export const OperationsSection = observer(function OperationsSection({
 	onClearQueue?: () => void;
 	onClearHistory?: () => void;
 	showProfileTitle?: boolean;
+	showStatistics?: boolean;
 }) {
+	const {worker, operations: operationsStore} = useStore();
 	const operations = allSignal();
 	const errors = errorsSignal();
+	const holdReason = operationsStore.queued().length > 0 ? worker.holdReason() : null;
 	const containerRef = useRef<HTMLDivElement>(null);
 	section = section == 'errors' ? 'errors' : 'all';
 
@@ -103,6 +114,11 @@ export const OperationsSection = observer(function OperationsSection({
 						<span>errors</span>
 					</SelectOption>
 				</Select>
+				{showStatistics && (
+					<Button transparent muted onClick={() => onSection('statistics')} tooltip="Statistics">
+						<Icon name="time" /> Stats
+					</Button>
+				)}
 				{onClearQueue && (
 					<Button transparent muted variant="danger" onClick={onClearQueue} tooltip="Clear queue">
 						<Icon name="clear-all" /> Queue
@@ -115,6 +131,12 @@ export const OperationsSection = observer(function OperationsSection({
 				)}
 			</div>
 
+			{holdReason && (
+				<Alert icon="pause" variant="warning">
+					Queue on hold: {holdReason}
+				</Alert>
+			)}
+
 			{operations.length === 0 ? (
 				<Vacant>Empty</Vacant>
 			) : (
@@ -0,0 +1,161 @@
+import Path from 'path';
+import {pathToFileURL} from 'url';
+import {promises as FSP} from 'fs';
+import {shell} from 'electron';
+import {h, ComponentChild} from 'preact';
+import {useState, useEffect} from 'preact/hooks';
+import {eem, formatSize, formatRelevantTime} from 'lib/utils';
+import {
+	Thumbnail,
+	TextPreview,
+	isImagePath,
+	isTextPath,
+	getMimeType,
+	getThumbnail,
+	readTextPreview,
+	prettifyJSON,
+	tokenizeJSON,
+} from 'lib/preview';
+import {useStore} from 'models/store';
+import {Button} from 'components/Button';
+import {Icon} from 'components/Icon';
+import {Scrollable} from 'components/Scrollable';
+import {Vacant} from 'components/Vacant';
+import type {Item} from 'models/items';
+
+// Text files bigger than this are not previewed at all
+const MAX_TEXT_PREVIEW_SIZE = 5 * 1024 * 1024;
+
+interface FilePreviewData {
+	size?: number;
+	mtime?: number;
+	thumbnail?: Thumbnail | null;
+	text?: TextPreview;
+	error?: string;
+}
+
+export function OutputPreview({item, onClose}: {item: Item; onClose: () => void}) {
+	const {app} = useStore();
+	const [data, setData] = useState<FilePreviewData | null>(null);
+	const path = item.kind === 'file' || item.kind === 'directory' ? item.path : null;
+
+	useEffect(() => {
+		if (!path) return;
+
+		let canceled = false;
+		setData(null);
+
+		(async () => {
+			const data: FilePreviewData = {};
+			try {
+				const stat = await FSP.stat(path);
+				data.size = stat.isFile() ? stat.size : undefined;
+				data.mtime = stat.mtimeMs;
+				if (stat.isFile() && isImagePath(path)) {
+					data.thumbnail = await getThumbnail(path, app.thumbnailsPath);
+				} else if (stat.isFile() && isTextPath(path) && stat.size <= MAX_TEXT_PREVIEW_SIZE) {
+					data.text = await readTextPreview(path);
+				}
+			} catch (error) {
+				data.error = eem(error);
+			}
+			if (!canceled) setData(data);
+		})();
+
+		return () => {
+			canceled = true;
+		};
+	}, [item.id, path]);
+
+	const meta: [string, string][] = [['Kind', item.kind]];
+	let content: ComponentChild = null;
+
+	switch (item.kind) {
+		case 'file':
+		case 'directory':
+			if (item.kind === 'file') meta.push(['Mime', getMimeType(item.path) || 'unknown']);
+			if (data?.size != null) meta.push(['Size', formatSize(data.size)]);
+			if (data?.mtime != null) meta.push(['Modified', formatRelevantTime(data.mtime)]);
+			if (data?.thumbnail) meta.push(['Dimensions', `${data.thumbnail.width}×${data.thumbnail.height}`]);
+
+			if (!data) {
+				content = <Vacant loading />;
+			} else if (data.error) {
+				content = <Vacant variant="danger" title="Preview failed" details={data.error} />;
+			} else if (data.thumbnail) {
+				content = (
+					<div class="image">
+						<img src={pathToFileURL(data.thumbnail.path).href} alt={Path.basename(item.path)} />
+					</div>
+				);
+			} else if (data.text) {
+				content = <TextViewer text={data.text.text} truncated={data.text.truncated} />;
+			} else {
+				content = <Vacant title="No preview available" />;
+			}
+			break;
+
+		case 'string':
+			meta.push(['Type', item.type], ['Length', `${item.contents.length} characters`]);
+			content = <TextViewer text={item.contents} />;
+			break;
+
+		case 'url':
+			content = (
+				<div class="url">
+					<code>{item.url}</code>
+					<Button semitransparent variant="accent" onClick={() => shell.openExternal(item.url)}>
+						<Icon name="open-external" /> Open
+					</Button>
+				</div>
+			);
+			break;
+
+		default:
+			content = <Vacant title="No preview available" />;
+	}
+
+	meta.push(['Created', formatRelevantTime(item.created)]);
+
+	return (
+		<div class="OutputPreview">
+			<header>
+				<h1 title={path || undefined}>{path ? Path.basename(path) : item.kind}</h1>
+				<Button semitransparent muted onClick={onClose} tooltip="Close preview">
+					<Icon name="x" />
+				</Button>
+			</header>
+			<ul class="meta">
+				{meta.map(([title, value]) => (
+					<li>
+						<span class="title">{title}</span>
+						<span class="value">{value}</span>
+					</li>
+				))}
+			</ul>
+			<div class="content">{content}</div>
+		</div>
+	);
+}
+
+/**
+ * Displays text, and highlights it when it's a JSON object or array.
+ */
+function TextViewer({text, truncated}: {text: string; truncated?: boolean}) {
+	const json = prettifyJSON(text);
+
+	return (
+		<Scrollable class="TextViewer">
+			<pre>
+				<code>
+					{json
+						? tokenizeJSON(json).map(({type, value}) =>
+								type === 'text' ? value : <span class={`-${type}`}>{value}</span>
+							)
+						: text}
+				</code>
+			</pre>
+			{truncated && <div class="truncated">File is too big, only its beginning is displayed.</div>}
+		</Scrollable>
+	);
+}
@@ -1,14 +1,34 @@
+import Path from 'path';
+import {ipcRenderer, shell, clipboard} from 'electron';
+import {promises as FSP} from 'fs';
 import {h} from 'preact';
 import {useRef, useState, useEffect} from 'preact/hooks';
 import {action} from 'statin';
 import {observer} from 'statin-preact';
-import {clamp, rafThrottle, animationVolleyVisible} from 'lib/utils';
+import {clamp, rafThrottle, animationVolleyVisible, eem, getExtensionType} from 'lib/utils';
+import {copyPath, movePath} from 'lib/fs';
 import {useStore} from 'models/store';
 import {Items} from 'components/Items';
+import {OutputPreview} from 'components/OutputPreview';
 import {Select, SelectOption} from 'components/Select';
 import {Button} from 'components/Button';
 import {Icon} from 'components/Icon';
-import {OutputsInterface} from 'models/items';
+import {Input} from 'components/Input';
+import {Dropdown} from 'components/Dropdown';
+import {
+	Item,
+	ItemFile,
+	ItemDirectory,
+	OutputsInterface,
+	OutputsData,
+	OutputsFilter,
+	filterOutputs,
+	isOutputsFilterActive,
+	exportOutputsToCSV,
+	exportOutputsToJSON,
+	renderRenamePattern,
+} from 'models/items';
+import type {Item as RawItem} from '@drovp/types';
 
 type DragSource = 'spacer' | 'handle' | 'teaser';
 
@@ -16,6 +36,22 @@ function isDragSource(value: any): value is DragSource {
 	return ['spacer', 'handle', 'teaser'].includes(value);
 }
 
+function parseTime(value: string) {
+	const time = value ? new Date(value).getTime() : NaN;
+	return Number.isFinite(time) ? time : undefined;
+}
+
+// Sizes are entered in megabytes
+function parseSize(value: string) {
+	const size = value ? parseFloat(value) : NaN;
+	return Number.isFinite(size) ? size * 1024 * 1024 : undefined;
+}
+
+// Only existing files and directories can be selected for bulk actions
+function isSelectable(item: Item | RawItem): item is ItemFile | ItemDirectory {
+	return (item.kind === 'file' || item.kind === 'directory') && item.exists;
+}
+
 export const Outputs = observer(function Outputs({
 	title,
 	tooltip,
@@ -35,14 +71,37 @@ export const Outputs = observer(function Outputs({
 	profileTitles?: boolean;
 	toOperationLinks?: boolean;
 }) {
-	const {session, app} = useStore();
+	const store = useStore();
+	const {session, app, profiles, events, modals} = store;
 	const [draggedBy, setDraggedBy] = useState<DragSource | null>(null);
 	const containerRef = useRef<HTMLDivElement>(null);
 	const itemsRef = useRef<HTMLDivElement>(null);
 	const [renderFilterBar, setRenderFilterBar] = useState(false);
 	const [renderItems, setRenderItems] = useState(false);
+	const [showFilters, setShowFilters] = useState(false);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const selectionAnchorRef = useRef<string | null>(null);
+	const [previewId, setPreviewId] = useState<string | null>(null);
 	const category = session.outputsCategory();
-	const data = outputs.data();
+	const filter: OutputsFilter = {
+		search: session.outputsSearch(),
+		profileId: profileTitles ? session.outputsProfile() : undefined,
+		from: parseTime(session.outputsFrom()),
+		to: parseTime(session.outputsTo()),
+		minSize: parseSize(session.outputsMinSize()),
+		maxSize: parseSize(session.outputsMaxSize()),
+	};
+	const isFiltered = isOutputsFilterActive(filter);
+	const unfilteredData = outputs.data();
+	const data: OutputsData = isFiltered
+		? {
+				all: filterOutputs(unfilteredData.all, filter),
+				files: filterOutputs(unfilteredData.files, filter),
+				urls: filterOutputs(unfilteredData.urls, filter),
+				strings: filterOutputs(unfilteredData.strings, filter),
+				errors: filterOutputs(unfilteredData.errors, filter),
+		  }
+		: unfilteredData;
 
 	function updateRenderingFlags(containerHeight: number) {
 		setRenderFilterBar(containerHeight > 2);
@@ -112,6 +171,168 @@ export const Outputs = observer(function Outputs({
 		outputs.clearHistory();
 	}
 
+	function resetFilters() {
+		action(() => {
+			session.outputsSearch('');
+			session.outputsProfile('');
+			session.outputsFrom('');
+			session.outputsTo('');
+			session.outputsMinSize('');
+			session.outputsMaxSize('');
+		});
+	}
+
+	/**
+	 * Exports currently displayed items.
+	 */
+	async function exportItems(format: 'csv' | 'json') {
+		const {canceled, filePath} = (await ipcRenderer.invoke('show-save-dialog', {
+			defaultPath: `outputs-${new Date().toISOString().slice(0, 10)}.${format}`,
+			filters: [{name: format.toUpperCase(), extensions: [format]}],
+		})) as Electron.SaveDialogReturnValue;
+
+		if (canceled || !filePath) return;
+
+		try {
+			await FSP.writeFile(filePath, format === 'csv' ? exportOutputsToCSV(items) : exportOutputsToJSON(items));
+		} catch (error) {
+			events.create({variant: 'danger', title: `Outputs export failed`, message: eem(error)}).open();
+		}
+	}
+
+	/**
+	 * Toggles item selection, or with shift selects all items between it and
+	 * the previously toggled item.
+	 */
+	function handleSelect(item: Item | RawItem, event: MouseEvent) {
+		const newSelected = new Set(selected);
+		const index = items.findIndex(({id}) => id === item.id);
+		const anchorIndex = items.findIndex(({id}) => id === selectionAnchorRef.current);
+
+		if (event.shiftKey && index > -1 && anchorIndex > -1) {
+			for (let i = Math.min(index, anchorIndex); i <= Math.max(index, anchorIndex); i++) {
+				const item = items[i]!;
+				if (isSelectable(item)) newSelected.add(item.id);
+			}
+		} else {
+			if (newSelected.has(item.id)) newSelected.delete(item.id);
+			else newSelected.add(item.id);
+			selectionAnchorRef.current = item.id;
+		}
+
+		setSelected(newSelected);
+	}
+
+	function toggleSelectAll() {
+		setSelected(new Set(selectedItems.length > 0 ? [] : items.filter(isSelectable).map(({id}) => id)));
+	}
+
+	/**
+	 * Runs an action on each selected item, and reports all failures at once.
+	 */
+	async function runBulkAction(
+		title: string,
+		action: (item: ItemFile | ItemDirectory, index: number, total: number) => Promise<void>
+	) {
+		const targets = selectedItems;
+		const errors: string[] = [];
+
+		for (let i = 0; i < targets.length; i++) {
+			const item = targets[i]!;
+			try {
+				await action(item, i, targets.length);
+			} catch (error) {
+				errors.push(`${item.path}: ${eem(error)}`);
+			}
+		}
+
+		store.outputs.itemsChanged(targets);
+
+		if (errors.length > 0) {
+			events
+				.create({
+					variant: 'danger',
+					title: `${title} failed`,
+					message: `${errors.length} of ${targets.length} items failed.`,
+					details: errors.join('\n'),
+				})
+				.open();
+		}
+	}
+
+	async function transferSelected(mode: 'copy' | 'move') {
+		const {canceled, filePaths} = (await ipcRenderer.invoke('show-open-dialog', {
+			title: mode === 'copy' ? 'Copy to' : 'Move to',
+			properties: ['openDirectory', 'createDirectory'],
+		})) as Electron.OpenDialogReturnValue;
+		const directory = filePaths[0];
+
+		if (canceled || !directory) return;
+
+		await runBulkAction(mode === 'copy' ? 'Copy' : 'Move', async (item) => {
+			const destination = Path.join(directory, Path.basename(item.path));
+			if (mode === 'copy') {
+				await copyPath(item.path, destination);
+			} else {
+				await movePath(item.path, destination);
+				item.path = destination;
+			}
+		});
+	}
+
+	async function renameSelected() {
+		const {canceled, payload} = await modals.prompt(
+			{
+				title: `Rename ${selectedItems.length} items`,
+				message: `Available tokens: ${['basename', 'ext', 'index', 'date']
+					.map((token) => `<code>{${token}}</code>`)
+					.join(', ')}`,
+			},
+			{default: '{basename}-{index}{ext}'}
+		);
+		const pattern = payload.trim();
+
+		if (canceled || !pattern) return;
+
+		await runBulkAction('Rename', async (item, index, total) => {
+			const name = renderRenamePattern(pattern, item, index, total);
+			if (!name || /[\\/]/.test(name) || name.includes('..')) {
+				throw new Error(`New name "${name}" can't be empty, or contain path separators or "..".`);
+			}
+			const destination = Path.join(Path.dirname(item.path), name);
+			if (destination === item.path) return;
+			await movePath(item.path, destination);
+			item.path = destination;
+			if (item.kind === 'file') item.type = getExtensionType(destination);
+		});
+	}
+
+	async function trashSelected() {
+		const {payload} = await modals.confirm({
+			variant: 'danger',
+			title: `Move to trash`,
+			message: `Move <strong>${selectedItems.length}</strong> selected items to trash?`,
+		});
+
+		if (!payload) return;
+
+		await runBulkAction('Trash', async (item) => {
+			await shell.trashItem(item.path);
+			item.exists = false;
+		});
+	}
+
+	// Reveals first selected item of each directory
+	function revealSelected() {
+		const directories = new Set<string>();
+		for (const item of selectedItems) {
+			const directory = Path.dirname(item.path);
+			if (directories.has(directory)) continue;
+			directories.add(directory);
+			shell.showItemInFolder(item.path);
+		}
+	}
+
 	useEffect(() => {
 		if (containerRef.current) updateRenderingFlags(containerRef.current.offsetHeight);
 	}, []);
@@ -127,6 +348,13 @@ export const Outputs = observer(function Outputs({
 			? data.errors
 			: data.all;
 
+	// Selection is narrowed to currently displayed items
+	const selectedItems = items.filter(
+		(item): item is ItemFile | ItemDirectory => selected.has(item.id) && isSelectable(item)
+	);
+	const selectedIds = new Set(selectedItems.map(({id}) => id));
+	const previewItem = previewId ? unfilteredData.all.find(({id}) => id === previewId) : undefined;
+
 	let classNames = 'Outputs';
 	if (draggedBy) classNames += ' -dragged';
 	if (draggedBy === 'handle') classNames += ' -force-show-drag-handle';
@@ -170,6 +398,38 @@ export const Outputs = observer(function Outputs({
 							</SelectOption>
 						</Select>
 
+						<Input
+							class="search"
+							placeholder="search"
+							value={session.outputsSearch()}
+							onChange={(value) => action(() => session.outputsSearch(value))}
+						/>
+
+						<Button
+							class="filtersToggle"
+							semitransparent
+							variant={isFiltered ? 'info' : undefined}
+							selected={showFilters}
+							onClick={() => setShowFilters(!showFilters)}
+							tooltip="Filters & export"
+						>
+							<Icon name="search" />
+						</Button>
+
+						<Button
+							class="selectToggle"
+							semitransparent
+							variant={selectedItems.length > 0 ? 'info' : undefined}
+							onClick={toggleSelectAll}
+							tooltip={
+								selectedItems.length > 0
+									? 'Clear selection'
+									: 'Select all files & folders\nCtrl/Shift+Click to select individual items'
+							}
+						>
+							<Icon name="check-all" />
+						</Button>
+
 						<div class="spacer" data-drag-source="spacer" onPointerDown={initiateResize} />
 
 						<Button class="clear" semitransparent muted variant="danger" onClick={clear}>
@@ -182,8 +442,130 @@ export const Outputs = observer(function Outputs({
 					</div>
 				)}
 
+				{renderFilterBar && showFilters && (
+					<div class="filtersBar">
+						{profileTitles && (
+							<Dropdown
+								value={session.outputsProfile()}
+								onChange={(value) => action(() => session.outputsProfile(value))}
+							>
+								{[
+									<option value="">all profiles</option>,
+									...profiles
+										.all()
+										.map((profile) => <option value={profile.id}>{profile.displayTitle()}</option>),
+								]}
+							</Dropdown>
+						)}
+						<Input
+							type="datetime-local"
+							tooltip="Created from"
+							value={session.outputsFrom()}
+							onChange={(value) => action(() => session.outputsFrom(value))}
+						/>
+						<Input
+							type="datetime-local"
+							tooltip="Created to"
+							value={session.outputsTo()}
+							onChange={(value) => action(() => session.outputsTo(value))}
+						/>
+						<Input
+							type="number"
+							min={0}
+							cols={6}
+							placeholder="min MB"
+							tooltip="Min file size in megabytes"
+							value={session.outputsMinSize()}
+							onChange={(value) => action(() => session.outputsMinSize(value))}
+						/>
+						<Input
+							type="number"
+							min={0}
+							cols={6}
+							placeholder="max MB"
+							tooltip="Max file size in megabytes"
+							value={session.outputsMaxSize()}
+							onChange={(value) => action(() => session.outputsMaxSize(value))}
+						/>
+						<Button
+							semitransparent
+							muted
+							disabled={!isFiltered}
+							onClick={resetFilters}
+							tooltip="Reset filters"
+						>
+							<Icon name="x" />
+						</Button>
+						<div class="spacer" />
+						<Button
+							semitransparent
+							variant="info"
+							disabled={items.length === 0}
+							onClick={() => exportItems('csv')}
+							tooltip="Export displayed outputs to CSV"
+						>
+							<Icon name="export" /> CSV
+						</Button>
+						<Button
+							semitransparent
+							variant="info"
+							disabled={items.length === 0}
+							onClick={() => exportItems('json')}
+							tooltip="Export displayed outputs to JSON"
+						>
+							<Icon name="export" /> JSON
+						</Button>
+					</div>
+				)}
+
+				{renderFilterBar && selectedItems.length > 0 && (
+					<div class="selectionBar" title="Drag any of the selected items to drag all of them">
+						<span class="count">
+							<b>{selectedItems.length}</b> selected
+						</span>
+						<Button semitransparent variant="info" onClick={() => transferSelected('copy')}>
+							<Icon name="files" /> Copy to…
+						</Button>
+						<Button semitransparent variant="info" onClick={() => transferSelected('move')}>
+							<Icon name="folder" /> Move to…
+						</Button>
+						<Button semitransparent variant="info" onClick={renameSelected}>
+							<Icon name="edit" /> Rename…
+						</Button>
+						<Button
+							semitransparent
+							variant="info"
+							onClick={() => clipboard.writeText(selectedItems.map(({path}) => path).join('\n'))}
+							tooltip="Copy paths"
+						>
+							<Icon name="copy" />
+						</Button>
+						<Button semitransparent variant="info" onClick={revealSelected} tooltip="Show in folder">
+							<Icon name="folder-open" />
+						</Button>
+						<div class="spacer" />
+						<Button semitransparent variant="danger" onClick={trashSelected} tooltip="Move to trash">
+							<Icon name="trash" />
+						</Button>
+						<Button semitransparent muted onClick={() => setSelected(new Set())} tooltip="Clear selection">
+							<Icon name="x" />
+						</Button>
+					</div>
+				)}
+
 				{renderItems && (
-					<Items reversed profileTitles={profileTitles} items={items} toOperationLinks={toOperationLinks} />
+					<div class="body">
+						<Items
+							reversed
+							profileTitles={profileTitles}
+							items={items}
+							toOperationLinks={toOperationLinks}
+							selected={selectedIds}
+							onSelect={handleSelect}
+							onPreview={(item) => setPreviewId(previewId === item.id ? null : item.id)}
+						/>
+						{previewItem && <OutputPreview item={previewItem} onClose={() => setPreviewId(null)} />}
+					</div>
 				)}
 			</div>
 		</div>
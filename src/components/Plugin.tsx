@@ -4,7 +4,15 @@ import {h, RefObject, RenderableProps} from 'preact';
 import {useState, useEffect, useRef, useMemo} from 'preact/hooks';
 import {observer} from 'statin-preact';
 import {useVolley, useCachedState} from 'lib/hooks';
-import {registry, PluginRegistryMeta} from 'lib/registry';
+import {eem, formatDate} from 'lib/utils';
+import {registry, PluginRegistryMeta, RegistryVersion} from 'lib/registry';
+import {satisfiesVersionRange} from 'lib/pluginVersions';
+import {
+	PluginPermissions as PluginPermissionsData,
+	validatePluginPermissions,
+	describePluginPermissions,
+} from 'lib/permissions';
+import semverCompare from 'semver-compare';
 import {useStore} from 'models/store';
 import {Plugin as PluginModel} from 'models/plugins';
 import {Dependency} from 'models/dependencies';
@@ -25,6 +33,7 @@ import {Scrollable} from 'components/Scrollable';
 import {PluginCards} from 'components/PluginCards';
 import {PluginDisplayName} from 'components/PluginDisplayName';
 import {Changelog} from 'components/Changelog';
+import {Spinner} from 'components/Spinner';
 
 export const PluginRoute = observer(function PluginRoute({match, location, history}: RouteProps) {
 	const junctionSection = match.groups?.section;
@@ -297,11 +306,33 @@ export const Plugin = observer(function Plugin({data, section, onSectionChange}:
 						<Tag>{installed.processors().length + installed.dependencies().length}</Tag>
 					</NavLink>
 				)}
+				<NavLink
+					to="permissions"
+					onClick={onSectionChange}
+					activeMatch={section === 'permissions'}
+					tooltip={`Permissions plugin declares`}
+				>
+					<Icon name="visibility" /> Permissions
+				</NavLink>
+				{installed && !installed.isLocal && !installed.isExternal && (
+					<NavLink
+						to="versions"
+						onClick={onSectionChange}
+						activeMatch={section === 'versions'}
+						tooltip={`Version history, pinning, and rollback`}
+					>
+						<Icon name="history" /> Versions
+						{installed.pin() && <Tag>{installed.pin()}</Tag>}
+					</NavLink>
+				)}
 			</Nav>
 
 			<Scrollable class="content">
 				{section === 'extensions' &&
 					(installed ? <PluginExtensions plugin={installed} /> : <Vacant title="Plugin not installed." />)}
+				{section === 'permissions' && <PluginPermissions data={data} />}
+				{section === 'versions' &&
+					(installed ? <PluginVersions plugin={installed} /> : <Vacant title="Plugin not installed." />)}
 				{section === 'changelog' && <Changelog repository={repository} currentVersion={installed?.version} />}
 				{section === 'readme' &&
 					(data.readme ? <Markdown contents={data.readme} /> : <Vacant title="No readme." />)}
@@ -344,6 +375,143 @@ export function PluginExtensions({plugin}: {plugin: PluginModel}) {
 	);
 }
 
+export const PluginPermissions = observer(function PluginPermissions({data}: {data: PluginData}) {
+	const {settings} = useStore();
+	const enforcement = settings.pluginPermissions();
+	const declared = data.drovp?.permissions;
+	let permissions: PluginPermissionsData | null = null;
+	let error: string | null = null;
+
+	try {
+		if (declared != null && validatePluginPermissions(declared)) permissions = declared;
+	} catch (validationError) {
+		error = eem(validationError);
+	}
+
+	if (error) {
+		return (
+			<Vacant variant="danger" title="Invalid permissions manifest" details={error}>
+				Plugin's <code>drovp.permissions</code> manifest field is invalid.
+			</Vacant>
+		);
+	}
+
+	const isEnforced = enforcement === 'strict' || (enforcement === 'declared' && permissions != null);
+
+	return (
+		<div class="PluginPermissions">
+			<PluginPermissionsList permissions={permissions} />
+			<p class="enforcement">
+				{isEnforced
+					? `Processors of this plugin run restricted to these permissions.`
+					: `Permissions of this plugin are not enforced.`}{' '}
+				Enforcement can be configured in <a href="route://settings">Settings</a>.
+			</p>
+		</div>
+	);
+});
+
+export function PluginPermissionsList({permissions}: {permissions: PluginPermissionsData | null}) {
+	return (
+		<ul class={`PluginPermissionsList${permissions ? '' : ' -undeclared'}`}>
+			{describePluginPermissions(permissions).map((line) => (
+				<li>{line}</li>
+			))}
+		</ul>
+	);
+}
+
+export const PluginVersions = observer(function PluginVersions({plugin}: {plugin: PluginModel}) {
+	const {staging} = useStore();
+	const [versions, setVersions] = useState<RegistryVersion[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const pin = plugin.pin();
+	const backup = plugin.backup();
+	const isStaging = staging.isStaging();
+
+	useEffect(() => {
+		setError(null);
+		registry
+			.meta(plugin.name)
+			.then((meta) => setVersions(meta.versions || []))
+			.catch((error) => setError(eem(error)));
+	}, [plugin.name]);
+
+	return (
+		<div class="PluginVersions">
+			<div class="controls">
+				<Button
+					variant={pin ? 'info' : undefined}
+					semitransparent
+					onClick={plugin.pinMaybe}
+					disabled={isStaging}
+					tooltip="Only update to versions satisfying a version range"
+				>
+					<Icon name="tag" />
+					{pin ? `Pinned to ${pin}` : 'Pin version'}
+				</Button>
+				{backup && backup.version !== plugin.version && (
+					<Button
+						variant="warning"
+						semitransparent
+						onClick={plugin.rollback}
+						disabled={isStaging}
+						tooltip={`Restore version ${backup.version} backed up on ${formatDate(backup.created)}`}
+					>
+						<Icon name="undo" />
+						Rollback to {backup.version}
+					</Button>
+				)}
+			</div>
+
+			{error ? (
+				<Vacant variant="danger" title="Error">
+					{error}
+				</Vacant>
+			) : !versions ? (
+				<Spinner />
+			) : versions.length === 0 ? (
+				<Vacant title="Empty">Registry has no versions of this plugin.</Vacant>
+			) : (
+				<ul>
+					{versions.map(({version, date, deprecated}) => {
+						const isInstalled = version === plugin.version;
+						const isOutsidePin = pin != null && !satisfiesVersionRange(version, pin);
+						let classNames = '';
+						if (isInstalled) classNames += ' -installed';
+						if (isOutsidePin) classNames += ' -outside-pin';
+
+						return (
+							<li class={classNames.trim() || undefined}>
+								<span class="version">{version}</span>
+								{date && <span class="date">{formatDate(date)}</span>}
+								{isInstalled && <Tag variant="success">installed</Tag>}
+								{deprecated && (
+									<Tag variant="danger" tooltip={deprecated}>
+										deprecated
+									</Tag>
+								)}
+								{isOutsidePin && <Tag tooltip={`Doesn't satisfy pin ${pin}`}>outside pin</Tag>}
+								{!isInstalled && (
+									<Button
+										transparent
+										onClick={() => plugin.installVersionMaybe(version)}
+										disabled={isStaging}
+										tooltip={`Install version ${version}`}
+									>
+										<Icon name="install" />
+										{semverCompare(version, plugin.version) < 0 ? 'Downgrade' : 'Install'}
+									</Button>
+								)}
+							</li>
+						);
+					})}
+				</ul>
+			)}
+		</div>
+	);
+});
+
 export const PluginDependents = observer(function PluginDependents({
 	class: className,
 	plugin,
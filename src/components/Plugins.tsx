@@ -67,6 +67,21 @@ const Plugins = observer(function Plugins() {
 					</Button>
 				)}
 				<div class="spacer" />
+				<Button
+					semitransparent
+					onClick={() => plugins.exportLockfile()}
+					tooltip="Export lockfile with exact versions of installed plugins"
+				>
+					<Icon name="export" />
+				</Button>
+				<Button
+					semitransparent
+					disabled={staging.isStaging()}
+					onClick={() => plugins.reproduceMaybe()}
+					tooltip="Reproduce installed plugins from a lockfile"
+				>
+					<Icon name="import" />
+				</Button>
 				<Button
 					semitransparent
 					disabled={staging.isStaging()}
@@ -1,3 +1,4 @@
+import {webUtils} from 'electron';
 import {h, VNode} from 'preact';
 import {useRef} from 'preact/hooks';
 import {RouteProps, Redirect} from 'poutr';
@@ -21,7 +22,7 @@ const sections: {[k: string]: (props: RouteProps) => VNode} = {
 const defaultUrl = '/plugins';
 
 export const PluginsJunction = observer(function PluginsJunction(props: RouteProps) {
-	const {settings} = useStore();
+	const {settings, plugins, staging} = useStore();
 	const {match, location, history} = props;
 	const containerRef = useRef<HTMLDivElement>(null);
 	let [lastUrl, setLastUrl] = useCache<string>('pluginsJunction.lastUrl', defaultUrl);
@@ -48,9 +49,16 @@ export const PluginsJunction = observer(function PluginsJunction(props: RoutePro
 
 	const contextMenu = section === 'plugins' ? 'plugins' : undefined;
 
+	// Files dropped anywhere in plugins section are installed as local plugins
+	function handleDrop(event: DragEvent) {
+		const files = [...(event.dataTransfer?.files || [])];
+		if (files.length === 0 || staging.isStaging()) return;
+		plugins.installLocalMaybe(files.map((file) => webUtils.getPathForFile(file)));
+	}
+
 	// Main pages
 	return (
-		<main class="PluginsJunction" ref={containerRef} data-context-menu={contextMenu}>
+		<main class="PluginsJunction" ref={containerRef} data-context-menu={contextMenu} onDrop={handleDrop}>
 			<Nav>
 				<NavLink to="/plugins" activeMatch={/^\/plugins(\/.*)?/} data-context-menu="plugins">
 					Installed
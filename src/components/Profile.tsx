@@ -1,9 +1,11 @@
+import {shell} from 'electron';
 import {h, RenderableProps, RefObject} from 'preact';
 import {useRef, useState, useEffect, useMemo} from 'preact/hooks';
 import {action} from 'statin';
 import {observer} from 'statin-preact';
 import {useEventListener, useVolley, useScrollPosition} from 'lib/hooks';
-import {TargetedEvent, isTextInputElement, uid} from 'lib/utils';
+import {TargetedEvent, isTextInputElement, uid, eem} from 'lib/utils';
+import {formatScheduleOpening} from 'lib/schedule';
 import {Icon, Help} from 'components/Icon';
 import {RouteProps, Redirect} from 'poutr';
 import {Vacant} from 'components/Vacant';
@@ -14,6 +16,7 @@ import {createCopyParticle, infoParticle} from 'components/InfoParticle';
 import {Options} from 'components/Options';
 import {Issues} from 'components/Issues';
 import {Checkbox} from 'components/Checkbox';
+import {Dropdown} from 'components/Dropdown';
 import {Alert} from 'components/Alert';
 import {Instructions} from 'components/Instructions';
 import {ProcessorCard} from 'components/ProcessorCard';
@@ -25,7 +28,16 @@ import {OperationSubRoute} from 'components/Operation';
 import {Nav, NavLink, NavLinkRelativePart} from 'components/Nav';
 import {ProfileProgress} from './ProfileProgress';
 import {useStore} from 'models/store';
-import {Profile as ProfileModel} from 'models/profiles';
+import {
+	Profile as ProfileModel,
+	PROFILE_WATCH_OPTIONS_SCHEMA,
+	PROFILE_RETRY_OPTIONS_SCHEMA,
+	PROFILE_TIMEOUT_OPTIONS_SCHEMA,
+	PROFILE_SCHEDULE_OPTIONS_SCHEMA,
+	PROFILE_OUTPUT_LOG_OPTIONS_SCHEMA,
+	PROFILE_NOTIFY_OPTIONS_SCHEMA,
+	PROFILE_HOOKS_OPTIONS_SCHEMA,
+} from 'models/profiles';
 import {resetOptions} from 'models/options';
 import {Outputs} from './Outputs';
 import {OptionNumber} from 'components/OptionNumber';
@@ -404,6 +416,7 @@ const ProfileOptions = observer(function ProfileOptions({profile, mountId}: {pro
 });
 
 const CommonProfileOptions = observer(function CommonProfileOptions({profile}: {profile: ProfileModel}) {
+	const {profiles} = useStore();
 	const [section, setSection] = useState<string | null>(null);
 	const processor = profile.processor();
 	const profileOptions = profile.options() || {};
@@ -411,6 +424,10 @@ const CommonProfileOptions = observer(function CommonProfileOptions({profile}: {
 	const humanThreadType = profile.humanThreadType();
 	const parallelizationMode = processor?.parallelizationMode();
 	const queuedOperationsCount = profile.batch.items().length - profile.batch.index() - profile.pending().length;
+	const watchedPathsCount = profile.commonOptions.watchPaths().filter((path) => path().trim()).length;
+	const watchErrors = profile.watchers.errors();
+	const timeouts = profile.humanTimeouts();
+	const scheduleWaitingUntil = profile.scheduleWaitingUntil();
 
 	function toggleSection(name: string) {
 		setSection(section === name ? null : name);
@@ -432,6 +449,14 @@ const CommonProfileOptions = observer(function CommonProfileOptions({profile}: {
 		resetOptions(profileOptions);
 	}
 
+	function handleChainChange(id: string) {
+		try {
+			profile.setChainTo(id || null);
+		} catch (error) {
+			infoParticle(eem(error), {variant: 'danger'});
+		}
+	}
+
 	return (
 		<div class="CommonProfileOptions">
 			<div class="options">
@@ -468,6 +493,173 @@ const CommonProfileOptions = observer(function CommonProfileOptions({profile}: {
 						</Button>
 					</div>
 				</div>
+				<div class="option priority">
+					<h1>Priority</h1>
+					<div class="row">
+						<div class="controls">
+							<OptionNumber signal={profile.commonOptions.priority} />
+						</div>
+						<Button
+							class="helpToggle"
+							semitransparent
+							selected={section === 'priority'}
+							onClick={() => toggleSection('priority')}
+							tooltip="Toggle help"
+						>
+							<Icon name={section === 'priority' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option retries">
+					<h1>Retries</h1>
+					<div class="row">
+						<div class="controls">
+							<OptionNumber signal={profile.commonOptions.retryCount} />
+						</div>
+						<Button
+							class="helpToggle"
+							semitransparent
+							selected={section === 'retry'}
+							onClick={() => toggleSection('retry')}
+							tooltip="Toggle retry options"
+						>
+							<Icon name={section === 'retry' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option timeouts">
+					<h1>Timeouts</h1>
+					<div class="row">
+						<Button
+							semitransparent
+							selected={section === 'timeouts'}
+							class="helpToggle"
+							onClick={() => toggleSection('timeouts')}
+							tooltip={
+								timeouts.length > 0 ? `Operation ${timeouts.join(', ')}` : 'Toggle timeout options'
+							}
+						>
+							<span class="count">{timeouts.length > 0 ? timeouts.length : 'off'}</span>
+							<Icon name={section === 'timeouts' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option schedule">
+					<h1>Schedule</h1>
+					<div class="row">
+						<Checkbox
+							checked={profile.commonOptions.schedule()}
+							onChange={(checked) => profile.commonOptions.schedule(checked)}
+						/>
+						<Button
+							semitransparent
+							variant={scheduleWaitingUntil != null ? 'warning' : undefined}
+							selected={section === 'schedule'}
+							class="helpToggle"
+							onClick={() => toggleSection('schedule')}
+							tooltip="Toggle schedule options"
+						>
+							<Icon name={section === 'schedule' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option chain">
+					<h1>Chain to</h1>
+					<div class="row">
+						<Dropdown
+							value={profile.chainTo() || ''}
+							variant={profile.isChainCyclic() ? 'danger' : undefined}
+							onChange={handleChainChange}
+						>
+							{[
+								<option value="">none</option>,
+								...profiles
+									.all()
+									.filter((target) => target === profile.chainTarget() || profile.canChainTo(target))
+									.map((target) => <option value={target.id}>{target.displayTitle()}</option>),
+							]}
+						</Dropdown>
+						<Button
+							class="helpToggle"
+							semitransparent
+							selected={section === 'chain'}
+							onClick={() => toggleSection('chain')}
+							tooltip="Toggle help"
+						>
+							<Icon name={section === 'chain' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option watch">
+					<h1>Watch</h1>
+					<div class="row">
+						<Button
+							semitransparent
+							variant={watchErrors.length > 0 ? 'danger' : undefined}
+							selected={section === 'watch'}
+							class="helpToggle"
+							onClick={() => toggleSection('watch')}
+							tooltip="Toggle watch folders options"
+						>
+							<span class="count">{watchedPathsCount}</span>
+							<Icon name={section === 'watch' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option outputLog">
+					<h1>Output log</h1>
+					<div class="row">
+						<Checkbox
+							checked={profile.commonOptions.outputLog()}
+							onChange={(checked) => profile.commonOptions.outputLog(checked)}
+						/>
+						<Button
+							semitransparent
+							selected={section === 'outputLog'}
+							class="helpToggle"
+							onClick={() => toggleSection('outputLog')}
+							tooltip="Toggle output log options"
+						>
+							<Icon name={section === 'outputLog' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option notify">
+					<h1>Notify</h1>
+					<div class="row">
+						<Checkbox
+							checked={profile.commonOptions.notifyBatch()}
+							onChange={(checked) => profile.commonOptions.notifyBatch(checked)}
+						/>
+						<Button
+							semitransparent
+							selected={section === 'notify'}
+							class="helpToggle"
+							onClick={() => toggleSection('notify')}
+							tooltip="Toggle batch notification options"
+						>
+							<Icon name={section === 'notify' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
+				<div class="option hooks">
+					<h1>Hooks</h1>
+					<div class="row">
+						<Checkbox
+							checked={profile.commonOptions.hooks()}
+							onChange={(checked) => profile.commonOptions.hooks(checked)}
+						/>
+						<Button
+							semitransparent
+							selected={section === 'hooks'}
+							class="helpToggle"
+							onClick={() => toggleSection('hooks')}
+							tooltip="Toggle hooks options"
+						>
+							<Icon name={section === 'hooks' ? 'info-up' : 'info-down'} />
+						</Button>
+					</div>
+				</div>
 				<div class="option modifiers">
 					<h1>Modifiers</h1>
 					<div className="row">
@@ -557,6 +749,137 @@ const CommonProfileOptions = observer(function CommonProfileOptions({profile}: {
 					)}
 				</div>
 			)}
+			{section === 'priority' && (
+				<div class="CommonOptionsExpando priority TextContent">
+					<p>
+						When there are free threads, queued operations of profiles with higher <b>Priority</b> are
+						started first. Operations of profiles with the same priority are started in queue order.
+					</p>
+				</div>
+			)}
+			{section === 'chain' && (
+				<div class="CommonOptionsExpando chain TextContent">
+					<p>
+						Every file, url, and string output of this profile's operations is automatically dropped into
+						the selected profile.
+					</p>
+					<p>Profiles that would create a cycle are not available.</p>
+					{profile.isChainCyclic() && (
+						<p>
+							<b>Current chain is cyclic and won't pass any outputs until it's fixed.</b>
+						</p>
+					)}
+				</div>
+			)}
+			{section === 'retry' && (
+				<div class="CommonOptionsExpando retry">
+					<p class="TextContent">
+						Failed operations are automatically put back into the queue up to <b>Retries</b> times. Each
+						retry waits <b>Delay</b> multiplied by <b>Backoff</b> for every previous retry. Stopped
+						operations are never retried.
+					</p>
+					<Options schema={PROFILE_RETRY_OPTIONS_SCHEMA} options={profile.commonOptions} namespace="retry" />
+				</div>
+			)}
+			{section === 'timeouts' && (
+				<div class="CommonOptionsExpando timeouts">
+					<p class="TextContent">
+						Operations that hit one of the limits are killed and end with an error explaining which limit
+						was hit. Use <b>Retries</b> options to retry them automatically.
+					</p>
+					<Options
+						schema={PROFILE_TIMEOUT_OPTIONS_SCHEMA}
+						options={profile.commonOptions}
+						namespace="timeouts"
+					/>
+				</div>
+			)}
+			{section === 'schedule' && (
+				<div class="CommonOptionsExpando schedule">
+					<p class="TextContent">
+						When enabled, operations of this profile only start during the scheduled time ranges. Items
+						dropped outside of them wait in the queue.
+					</p>
+					{scheduleWaitingUntil != null && (
+						<Alert
+							variant="warning"
+							icon="time"
+							actions={[{icon: 'play', title: 'Run now anyway', action: () => profile.runNow()}]}
+						>
+							Waiting for schedule until {formatScheduleOpening(scheduleWaitingUntil)}
+						</Alert>
+					)}
+					<Options
+						schema={PROFILE_SCHEDULE_OPTIONS_SCHEMA}
+						options={profile.commonOptions}
+						namespace="schedule"
+					/>
+				</div>
+			)}
+			{section === 'watch' && (
+				<div class="CommonOptionsExpando watch">
+					<p class="TextContent">
+						New files appearing in watched directories are dropped into this profile once they stop growing.
+						Only files added while the app is running are picked up.
+					</p>
+					{watchErrors.map((error) => (
+						<Alert variant="danger" icon="warning">
+							{error}
+						</Alert>
+					))}
+					<Options schema={PROFILE_WATCH_OPTIONS_SCHEMA} options={profile.commonOptions} namespace="watch" />
+				</div>
+			)}
+			{section === 'outputLog' && (
+				<div class="CommonOptionsExpando outputLog">
+					<p class="TextContent">
+						When enabled, every output of this profile's operations is appended as a JSON line into a log
+						file, along with its operation ID, inputs, options hash, and timestamps. Log is independent of
+						outputs history, so it's not affected by its limits or clearing.
+					</p>
+					<Options
+						schema={PROFILE_OUTPUT_LOG_OPTIONS_SCHEMA}
+						options={profile.commonOptions}
+						namespace="outputLog"
+					/>
+					<div class="actions">
+						<Button
+							semitransparent
+							variant="info"
+							onClick={() => shell.showItemInFolder(profile.outputLog.getPath())}
+						>
+							<Icon name="folder-open" /> Show log file
+						</Button>
+					</div>
+				</div>
+			)}
+			{section === 'notify' && (
+				<div class="CommonOptionsExpando notify">
+					<p class="TextContent">
+						When enabled, a desktop notification is shown when this profile's batch finishes, with counts of
+						completed and errored operations, and how long it took. Clicking the notification opens the
+						profile, or its first errored operation.
+					</p>
+					<Options
+						schema={PROFILE_NOTIFY_OPTIONS_SCHEMA}
+						options={profile.commonOptions}
+						namespace="notify"
+					/>
+				</div>
+			)}
+			{section === 'hooks' && (
+				<div class="CommonOptionsExpando hooks">
+					<p class="TextContent">
+						When enabled, commands below run when this profile's batch finishes, or when one of its
+						operations ends with an error. Their output, or the webhook response, is reported in Events.
+					</p>
+					<Options
+						schema={PROFILE_HOOKS_OPTIONS_SCHEMA}
+						options={profile.commonOptions}
+						namespace="hooks"
+					/>
+				</div>
+			)}
 			{section === 'modifiers' && <ModifiersInfo profile={profile} />}
 		</div>
 	);
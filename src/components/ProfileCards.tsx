@@ -4,9 +4,11 @@ import {reaction, action} from 'statin';
 import {observer} from 'statin-preact';
 import {SetOptional} from 'type-fest';
 import {useScrollPosition, useVolley, useElementSize} from 'lib/hooks';
-import {TargetedEvent, clamp, roundDecimals, debounce} from 'lib/utils';
+import {TargetedEvent, clamp, roundDecimals, debounce, prevented} from 'lib/utils';
+import {formatScheduleOpening} from 'lib/schedule';
 import {Spinner} from 'components/Spinner';
 import {Icon} from 'components/Icon';
+import {Button} from 'components/Button';
 import {Scrollable} from 'components/Scrollable';
 import {useStore} from 'models/store';
 import {
@@ -33,6 +35,14 @@ export const ProfileCard = observer(function ProfileCard({profile, style, clicka
 	const completed = profile.batch.completed();
 	const errors = profile.batch.errors();
 	const title = profile.title();
+	const chainTarget = profile.chainTarget();
+	const isChainCyclic = profile.isChainCyclic();
+	const timeouts = profile.humanTimeouts();
+	const scheduleWaitingUntil = profile.scheduleWaitingUntil();
+	const watchedPaths = profile.commonOptions
+		.watchPaths()
+		.map((path) => path().trim())
+		.filter(Boolean);
 	const containerRef = useRef<HTMLDivElement>(null);
 
 	useEffect(() => {
@@ -62,6 +72,35 @@ export const ProfileCard = observer(function ProfileCard({profile, style, clicka
 		>
 			<header>
 				<h1 class={title ? 'title' : 'placeholder'}>{profile.displayTitle()}</h1>
+				{chainTarget && (
+					<div
+						class={`chain${isChainCyclic ? ' -cyclic' : ''}`}
+						title={
+							isChainCyclic
+								? `Chain is cyclic, outputs are not being passed on`
+								: `Outputs are chained into:\n${profile
+										.chain()
+										.map((target) => target.displayTitle())
+										.join(' → ')}`
+						}
+					>
+						<Icon name="link" />
+						<span class="target">{chainTarget.displayTitle()}</span>
+					</div>
+				)}
+				{timeouts.length > 0 && (
+					<div class="timeouts" title={`Operation ${timeouts.join(', ')}`}>
+						<Icon name="time" />
+					</div>
+				)}
+				{watchedPaths.length > 0 && (
+					<div
+						class={`watch${profile.watchers.errors().length > 0 ? ' -error' : ''}`}
+						title={`Watching:\n${watchedPaths.join('\n')}`}
+					>
+						<Icon name="visibility" />
+					</div>
+				)}
 				{profile.isAdding() && (
 					<div class="adding">
 						<Spinner /> <span class="count">{profile.added()}</span>
@@ -73,6 +112,17 @@ export const ProfileCard = observer(function ProfileCard({profile, style, clicka
 					<span class="value">{completed}</span>
 					<span class="title">completed</span>
 				</span>
+				{scheduleWaitingUntil != null && (
+					<Button
+						class="runNow"
+						transparent
+						variant="warning"
+						onClick={prevented(() => profile.runNow())}
+						tooltip={`Waiting for schedule until ${formatScheduleOpening(scheduleWaitingUntil)}`}
+					>
+						<Icon name="play" /> run now anyway
+					</Button>
+				)}
 				<span class={`errors${errors > 0 ? ' -active' : ''}`} title="Completed with errors">
 					<div class="value">{errors}</div>
 					<div class="title">errors</div>
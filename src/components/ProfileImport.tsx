@@ -277,6 +277,8 @@ export const ImportScreen = observer(function ImportScreen({
 			processorId: customProcessorId,
 			options: data.options,
 			position,
+			// Chain target is only preserved when importing into the same setup
+			chainTo: data.chainTo && profiles.byId().has(data.chainTo) ? data.chainTo : undefined,
 		});
 
 		history.replace(`/profiles/${newProfile.id}`);
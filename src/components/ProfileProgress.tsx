@@ -1,6 +1,7 @@
 import {h} from 'preact';
 import {observer} from 'statin-preact';
 import {prevented} from 'lib/utils';
+import {formatScheduleOpening} from 'lib/schedule';
 import {BatchProgress} from 'components/BatchProgress';
 import {Progress} from 'components/Progress';
 import {OperationTitle} from 'components/OperationCard';
@@ -21,6 +22,7 @@ export const ProfileProgress = observer(({profile, compact}: ProfileProgressProp
 	const pendingOperations = profile.pending();
 	const isIdle = pendingOperations.length === 0;
 	const isPaused = worker.isPaused();
+	const scheduleWaitingUntil = profile.scheduleWaitingUntil();
 
 	let classNames = 'ProfileProgress';
 	if (compact) classNames += ' -compact';
@@ -46,6 +48,8 @@ export const ProfileProgress = observer(({profile, compact}: ProfileProgressProp
 								? undefined
 								: worker.isPaused()
 								? 'paused'
+								: scheduleWaitingUntil != null
+								? `waiting for schedule until ${formatScheduleOpening(scheduleWaitingUntil)}`
 								: batchCompleted < batchTotal
 								? 'queued'
 								: 'idle'
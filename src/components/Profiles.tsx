@@ -75,7 +75,7 @@ export const ProfileCategories = observer(function ProfileCategories({
 	onActivate: (id: string) => void;
 	class?: string;
 }) {
-	const {profiles, settings, app} = useStore();
+	const {profiles, settings, app, workspace} = useStore();
 
 	return (
 		<Tabs
@@ -89,7 +89,12 @@ export const ProfileCategories = observer(function ProfileCategories({
 			onRename={(id, title) => action(() => profiles.categories.byId().get(id)?.title(title))}
 			onDelete={profiles.categories.deleteMaybe}
 			dragTarget={app.draggingMode() != null}
-			contextMenuItems={[{label: 'Hide tabs', click: () => action(() => settings.showProfileTabs(false))}]}
+			contextMenuItems={[
+				{label: 'Hide tabs', click: () => action(() => settings.showProfileTabs(false))},
+				{type: 'separator'},
+				{label: 'Export workspace…', click: workspace.exportMaybe},
+				{label: 'Import workspace…', click: () => workspace.importMaybe()},
+			]}
 			keepOne
 		/>
 	);
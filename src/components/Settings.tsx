@@ -10,7 +10,7 @@ import {resetOptions} from 'models/options';
 import {schema} from 'models/settings';
 
 export function Settings() {
-	const {settings} = useStore();
+	const {settings, workspace} = useStore();
 	const optionsRef = useRef<HTMLDivElement>(null);
 
 	useVolley(optionsRef);
@@ -21,6 +21,20 @@ export function Settings() {
 		<Scrollable class="Settings">
 			<Options schema={schema} options={settings as any} innerRef={optionsRef} />
 			<div class="controls">
+				<Button
+					transparent
+					onClick={workspace.exportMaybe}
+					tooltip="Export all profiles, plugins they require, and shared settings into a file"
+				>
+					<Icon name="export" /> Export workspace
+				</Button>
+				<Button
+					transparent
+					onClick={() => workspace.importMaybe()}
+					tooltip="Import profiles, plugins, and settings from a workspace file"
+				>
+					<Icon name="import" /> Import workspace
+				</Button>
 				<Button transparent onClick={() => resetOptions(settings)}>
 					<Icon name="refresh" /> Reset to defaults
 				</Button>
@@ -0,0 +1,303 @@
+import {h} from 'preact';
+import {useMemo, useState} from 'preact/hooks';
+import {observer} from 'statin-preact';
+import {formatDuration, formatPercent, formatPercentDelta, formatDate, getOptionsDifference} from 'lib/utils';
+import {useStore} from 'models/store';
+import {
+	StatisticsGroup,
+	StatisticsGroupBy,
+	HistogramBucket,
+	groupRecords,
+	summarizeRecords,
+	getDurationHistogram,
+	getTimeline,
+} from 'models/statistics';
+import {Select, SelectOption} from 'components/Select';
+import {Dropdown} from 'components/Dropdown';
+import {Button} from 'components/Button';
+import {Icon} from 'components/Icon';
+import {Vacant} from 'components/Vacant';
+import {Scrollable} from 'components/Scrollable';
+
+type Range = 'day' | 'week' | 'month' | 'all';
+
+const RANGE_DURATIONS: Record<Range, number> = {
+	day: 24 * 60 * 60_000,
+	week: 7 * 24 * 60 * 60_000,
+	month: 30 * 24 * 60 * 60_000,
+	all: Infinity,
+};
+
+function formatTime(time: number) {
+	return new Date(time).toLocaleString(undefined, {
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+	});
+}
+
+function formatThroughput(itemsPerMinute: number) {
+	return `${itemsPerMinute < 10 ? itemsPerMinute.toFixed(1) : Math.round(itemsPerMinute)}/min`;
+}
+
+export const Statistics = observer(function Statistics({onClose}: {onClose?: () => void}) {
+	const {statistics, modals} = useStore();
+	const [range, setRange] = useState<Range>('week');
+	const [profileId, setProfileId] = useState('');
+	const [groupBy, setGroupBy] = useState<StatisticsGroupBy>('profile');
+	const allRecords = statistics.records();
+	// Records are edited in place, so length is what tells us about changes
+	const recordsCount = allRecords.length;
+
+	const profileTitles = useMemo(() => {
+		const titles = new Map<string, string>();
+		for (const record of allRecords) titles.set(record.profile, record.profileTitle);
+		return titles;
+	}, [allRecords, recordsCount]);
+
+	const {records, from, to} = useMemo(() => {
+		const to = Date.now();
+		const from =
+			range === 'all'
+				? allRecords[0]?.started ?? to
+				: Math.max(to - RANGE_DURATIONS[range], allRecords[0]?.started ?? to);
+		const records = allRecords.filter(
+			(record) => record.ended >= from && (!profileId || record.profile === profileId)
+		);
+		return {records, from, to};
+	}, [allRecords, recordsCount, range, profileId]);
+
+	const summary = useMemo(() => summarizeRecords(records), [records]);
+	const groups = useMemo(() => groupRecords(records, groupBy), [records, groupBy]);
+	const histogram = useMemo(() => getDurationHistogram(records), [records]);
+	const timeline = useMemo(() => getTimeline(records, from, to), [records, from, to]);
+
+	async function clear() {
+		const {payload: confirmed} = await modals.confirm({
+			title: 'Clear statistics?',
+			message: 'This deletes all recorded operation statistics.',
+		});
+		if (confirmed) statistics.clear();
+	}
+
+	return (
+		<div class="Statistics">
+			<div class="controls">
+				<Select transparent value={range} onChange={(value) => setRange(value as Range)}>
+					<SelectOption value="day" tooltip="Last 24 hours">
+						day
+					</SelectOption>
+					<SelectOption value="week" tooltip="Last 7 days">
+						week
+					</SelectOption>
+					<SelectOption value="month" tooltip="Last 30 days">
+						month
+					</SelectOption>
+					<SelectOption value="all" tooltip="All recorded operations">
+						all
+					</SelectOption>
+				</Select>
+				<Dropdown value={profileId} onChange={setProfileId}>
+					{[
+						<option value="">all profiles</option>,
+						...[...profileTitles].map(([id, title]) => <option value={id}>{title}</option>),
+					]}
+				</Dropdown>
+				<div class="spacer" />
+				<Button transparent muted variant="danger" onClick={clear} tooltip="Clear statistics">
+					<Icon name="clear-all" />
+				</Button>
+				{onClose && (
+					<Button transparent muted onClick={onClose} tooltip="Back to operations">
+						<Icon name="x" />
+					</Button>
+				)}
+			</div>
+
+			{records.length === 0 ? (
+				<Vacant title="No data">Statistics are recorded as operations finish.</Vacant>
+			) : (
+				<Scrollable class="content">
+					<ul class="summary">
+						<SummaryItem title="Operations" value={`${summary.count}`} />
+						<SummaryItem
+							title="Errors"
+							value={`${summary.errors} (${formatPercent(summary.errorRate)})`}
+							variant={summary.errors > 0 ? 'danger' : undefined}
+						/>
+						<SummaryItem title="Average duration" value={formatDuration(summary.averageDuration)} />
+						<SummaryItem title="Median duration" value={formatDuration(summary.medianDuration)} />
+						<SummaryItem
+							title="Average queue wait"
+							value={summary.averageWait != null ? formatDuration(summary.averageWait) : '-'}
+						/>
+						<SummaryItem
+							title="Throughput"
+							value={formatThroughput(summary.throughput)}
+							tooltip="Input items per minute of time during which at least one operation was running"
+						/>
+					</ul>
+
+					<div class="charts">
+						<BarChart
+							title="Durations"
+							buckets={histogram}
+							formatLabel={(bucket) => `${formatDuration(bucket.from)} - ${formatDuration(bucket.to)}`}
+						/>
+						<BarChart
+							title="Operations over time"
+							buckets={timeline}
+							formatLabel={(bucket) => `${formatTime(bucket.from)} - ${formatTime(bucket.to)}`}
+						/>
+					</div>
+
+					<div class="groups">
+						<header>
+							<h1>Compare</h1>
+							<Select
+								transparent
+								value={groupBy}
+								onChange={(value) => setGroupBy(value as StatisticsGroupBy)}
+							>
+								<SelectOption value="profile" tooltip="Group by profile">
+									profiles
+								</SelectOption>
+								<SelectOption value="processor" tooltip="Group by processor">
+									processors
+								</SelectOption>
+								<SelectOption value="options" tooltip="Group by profile options sets">
+									options
+								</SelectOption>
+							</Select>
+						</header>
+						<GroupsTable groups={groups} groupBy={groupBy} />
+					</div>
+				</Scrollable>
+			)}
+		</div>
+	);
+});
+
+function SummaryItem({
+	title,
+	value,
+	variant,
+	tooltip,
+}: {
+	title: string;
+	value: string;
+	variant?: Variant;
+	tooltip?: string;
+}) {
+	return (
+		<li class={variant ? `-${variant}` : undefined} title={tooltip}>
+			<span class="title">{title}</span>
+			<span class="value">{value}</span>
+		</li>
+	);
+}
+
+function BarChart({
+	title,
+	buckets,
+	formatLabel,
+}: {
+	title: string;
+	buckets: HistogramBucket[];
+	formatLabel: (bucket: HistogramBucket) => string;
+}) {
+	const max = buckets.reduce((max, {count}) => Math.max(max, count), 0);
+
+	return (
+		<figure class="BarChart">
+			<figcaption>{title}</figcaption>
+			<div class="bars">
+				{buckets.map((bucket) => (
+					<div
+						class="bar"
+						style={`--count: ${bucket.count / (max || 1)}; --errors: ${bucket.errors / (max || 1)}`}
+						title={`${formatLabel(bucket)}\n${bucket.count} operations, ${bucket.errors} errors`}
+					>
+						<div class="errors" />
+					</div>
+				))}
+			</div>
+		</figure>
+	);
+}
+
+/**
+ * Options groups are compared to the previous options set of the same
+ * profile, so it's visible what changed, and how it affected duration.
+ */
+function GroupsTable({groups, groupBy}: {groups: StatisticsGroup[]; groupBy: StatisticsGroupBy}) {
+	const {statistics} = useStore();
+	const previousByProfile = new Map<string, StatisticsGroup>();
+
+	return (
+		<table class="GroupsTable">
+			<thead>
+				<tr>
+					<th>{groupBy === 'processor' ? 'Processor' : 'Profile'}</th>
+					<th>Operations</th>
+					<th>Errors</th>
+					<th>Average</th>
+					<th>Median</th>
+					<th>Wait</th>
+					<th>Throughput</th>
+					{groupBy === 'options' && <th>Options</th>}
+				</tr>
+			</thead>
+			<tbody>
+				{groups.map((group) => {
+					const previous = group.profile ? previousByProfile.get(group.profile) : undefined;
+					if (group.profile) previousByProfile.set(group.profile, group);
+					const options = statistics.options.get(group.key);
+					const previousOptions = previous ? statistics.options.get(previous.key) : undefined;
+					const difference = previous ? getOptionsDifference(options, previousOptions) : undefined;
+
+					return (
+						<tr key={group.key}>
+							<td class="title">{group.title}</td>
+							<td>{group.count}</td>
+							<td class={group.errors > 0 ? '-danger' : undefined}>{formatPercent(group.errorRate)}</td>
+							<td>
+								{formatDuration(group.averageDuration)}
+								{groupBy === 'options' && previous && previous.averageDuration > 0 && (
+									<DurationDelta from={previous.averageDuration} to={group.averageDuration} />
+								)}
+							</td>
+							<td>{formatDuration(group.medianDuration)}</td>
+							<td>{group.averageWait != null ? formatDuration(group.averageWait) : '-'}</td>
+							<td>{formatThroughput(group.throughput)}</td>
+							{groupBy === 'options' && (
+								<td
+									class="options"
+									title={options !== undefined ? JSON.stringify(options, null, 2) : undefined}
+								>
+									<span class="hash">{group.optionsHash}</span>
+									<span class="since">since {formatDate(group.first)}</span>
+									{previous && (
+										<code>
+											{difference !== undefined ? JSON.stringify(difference) : 'unknown changes'}
+										</code>
+									)}
+								</td>
+							)}
+						</tr>
+					);
+				})}
+			</tbody>
+		</table>
+	);
+}
+
+function DurationDelta({from, to}: {from: number; to: number}) {
+	const variant = to > from ? 'danger' : to < from ? 'success' : undefined;
+	return (
+		<span class={`delta${variant ? ` -${variant}` : ''}`} title="Compared to the previous options set">
+			{formatPercentDelta(from, to)}
+		</span>
+	);
+}
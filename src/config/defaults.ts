@@ -19,12 +19,26 @@ export const defaults = {
 	alwaysOnTop: false,
 	compactImportCodes: true,
 	operationsProcessPriority: 'NORMAL' as ProcessPriority,
+	maxConcurrentOperations: 0,
+	resourceGate: false,
+	resourceGateMaxLoad: 1,
+	resourceGateMinFreeMemory: 512,
 	operationsHistoryLimit: 1000,
 	outputsHistoryLimit: 1000,
 	operationLogLimit: 100000,
+	persistOperations: true,
+	persistedHistoryLimit: 100,
+	restoredQueue: 'ask' as 'ask' | 'resume',
+	pluginPermissions: 'off' as 'off' | 'declared' | 'strict',
 	expandStagingLogs: 'error',
 	developerMode: false,
 	editCommand: 'code "${path}"',
+	apiEnabled: false,
+	apiPort: 48721,
+	apiToken: '',
+	registryUrl: 'https://registry.npmjs.org',
+	registryScopes: [] as string[],
+	registryTokens: [] as string[],
 
 	updateChannel: 'stable' as 'stable' | 'beta',
 	lastAppUpdatesCheckTime: 0,
@@ -0,0 +1,117 @@
+/**
+ * Minimal ANSI escape codes support for displaying process logs. Only SGR
+ * (colors & styles) sequences are rendered, everything else is stripped.
+ */
+
+interface AnsiState {
+	fg: string | null; // class name suffix, or rgb() color
+	bg: string | null;
+	bold: boolean;
+	dim: boolean;
+	italic: boolean;
+	underline: boolean;
+}
+
+const ANSI_REGEXP = /\x1b\[([\d;?]*)([A-Za-z])/g;
+
+export function stripAnsi(text: string) {
+	return text.replace(ANSI_REGEXP, '');
+}
+
+export function escapeHtml(text: string) {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Converts text with ANSI escape codes into escaped HTML, where colors and
+ * styles are wrapped in spans with `ansi-*` classes. 256 and true color
+ * codes beyond the basic 16 colors are applied as inline styles.
+ */
+export function ansiToHtml(text: string) {
+	const state: AnsiState = {fg: null, bg: null, bold: false, dim: false, italic: false, underline: false};
+	let html = '';
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	ANSI_REGEXP.lastIndex = 0;
+	while ((match = ANSI_REGEXP.exec(text))) {
+		html += wrap(text.slice(lastIndex, match.index), state);
+		lastIndex = ANSI_REGEXP.lastIndex;
+		if (match[2] === 'm') applySGR(state, match[1] || '0');
+	}
+
+	return html + wrap(text.slice(lastIndex), state);
+}
+
+function wrap(text: string, state: AnsiState) {
+	if (!text) return '';
+
+	const classes: string[] = [];
+	const styles: string[] = [];
+
+	if (state.fg?.startsWith('rgb')) styles.push(`color:${state.fg}`);
+	else if (state.fg) classes.push(`ansi-fg-${state.fg}`);
+	if (state.bg?.startsWith('rgb')) styles.push(`background:${state.bg}`);
+	else if (state.bg) classes.push(`ansi-bg-${state.bg}`);
+
+	if (state.bold) classes.push('ansi-bold');
+	if (state.dim) classes.push('ansi-dim');
+	if (state.italic) classes.push('ansi-italic');
+	if (state.underline) classes.push('ansi-underline');
+
+	const escaped = escapeHtml(text);
+	if (classes.length === 0 && styles.length === 0) return escaped;
+
+	const classAttribute = classes.length > 0 ? ` class="${classes.join(' ')}"` : '';
+	const styleAttribute = styles.length > 0 ? ` style="${styles.join(';')}"` : '';
+	return `<span${classAttribute}${styleAttribute}>${escaped}</span>`;
+}
+
+function applySGR(state: AnsiState, params: string) {
+	const codes = params.split(';').map((code) => parseInt(code || '0', 10));
+
+	for (let i = 0; i < codes.length; i++) {
+		const code = codes[i]!;
+
+		if (code === 0) {
+			Object.assign(state, {fg: null, bg: null, bold: false, dim: false, italic: false, underline: false});
+		} else if (code === 1) state.bold = true;
+		else if (code === 2) state.dim = true;
+		else if (code === 3) state.italic = true;
+		else if (code === 4) state.underline = true;
+		else if (code === 22) state.bold = state.dim = false;
+		else if (code === 23) state.italic = false;
+		else if (code === 24) state.underline = false;
+		else if (code >= 30 && code <= 37) state.fg = `${code - 30}`;
+		else if (code >= 90 && code <= 97) state.fg = `${code - 90 + 8}`;
+		else if (code === 39) state.fg = null;
+		else if (code >= 40 && code <= 47) state.bg = `${code - 40}`;
+		else if (code >= 100 && code <= 107) state.bg = `${code - 100 + 8}`;
+		else if (code === 49) state.bg = null;
+		else if (code === 38 || code === 48) {
+			const key = code === 38 ? 'fg' : 'bg';
+			if (codes[i + 1] === 5) {
+				const index = codes[i + 2] ?? 0;
+				state[key] = index < 16 ? `${index}` : color256(index);
+				i += 2;
+			} else if (codes[i + 1] === 2) {
+				state[key] = `rgb(${codes[i + 2] ?? 0},${codes[i + 3] ?? 0},${codes[i + 4] ?? 0})`;
+				i += 4;
+			}
+		}
+	}
+}
+
+/**
+ * Converts 256 color palette index above 15 into an rgb() color.
+ */
+function color256(index: number) {
+	if (index >= 232) {
+		const level = (index - 232) * 10 + 8;
+		return `rgb(${level},${level},${level})`;
+	}
+
+	const cube = index - 16;
+	const toLevel = (value: number) => (value === 0 ? 0 : value * 40 + 55);
+	return `rgb(${toLevel(Math.floor(cube / 36))},${toLevel(Math.floor(cube / 6) % 6)},${toLevel(cube % 6)})`;
+}
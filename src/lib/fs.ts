@@ -103,3 +103,26 @@ export async function prepareEmptyDirectory(path: string) {
 		await FSP.mkdir(path, {recursive: true});
 	}
 }
+
+/**
+ * Copy file or directory recursively. Throws when destination already exists.
+ */
+export async function copyPath(from: string, to: string) {
+	await FSP.cp(from, to, {recursive: true, force: false, errorOnExist: true});
+}
+
+/**
+ * Move file or directory. Falls back to copy & delete when moving across
+ * devices. Throws when destination already exists.
+ */
+export async function movePath(from: string, to: string) {
+	if (await exists(to)) throw new Error(`Destination "${to}" already exists.`);
+
+	try {
+		await FSP.rename(from, to);
+	} catch (error) {
+		if ((error as any)?.code !== 'EXDEV') throw error;
+		await copyPath(from, to);
+		await deletePath(from);
+	}
+}
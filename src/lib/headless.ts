@@ -0,0 +1,65 @@
+import manifest from 'manifest';
+import {eem} from 'lib/utils';
+
+export interface HeadlessRunArgs {
+	profile: string;
+	paths: string[];
+	options?: {[key: string]: any};
+	cwd: string;
+}
+
+export const RUN_USAGE = `Usage: ${manifest.name} run <profileId|title> [...paths] [--options '{"name": "value"}']
+
+Runs a profile on passed paths without opening the app window.
+Operation logs, progress, and outputs are printed to stdout as JSON lines.
+Exits with code 1 when any operation outputs an error.`;
+
+/**
+ * Parses command line arguments of the headless `run` command.
+ * Returns `null` when arguments don't request it, and throws on invalid ones.
+ *
+ * ```
+ * drovp run <profileId|title> [...paths] [--options '{...}']
+ * ```
+ */
+export function parseRunArgs(args: string[], cwd: string): HeadlessRunArgs | null {
+	if (args[0] !== 'run') return null;
+
+	const positional: string[] = [];
+	let options: HeadlessRunArgs['options'];
+
+	for (let i = 1; i < args.length; i++) {
+		const arg = args[i]!;
+
+		if (arg === '--') {
+			positional.push(...args.slice(i + 1));
+			break;
+		}
+
+		if (arg === '--help' || arg === '-h') throw new Error(RUN_USAGE);
+
+		if (arg === '--options' || arg.startsWith('--options=')) {
+			const json = arg === '--options' ? args[++i] : arg.slice('--options='.length);
+			if (json == null) throw new Error(`Missing --options value.`);
+			try {
+				options = JSON.parse(json);
+			} catch (error) {
+				throw new Error(`Invalid --options JSON: ${eem(error)}`);
+			}
+			if (options == null || typeof options !== 'object' || Array.isArray(options)) {
+				throw new Error(`--options has to be a JSON object.`);
+			}
+			continue;
+		}
+
+		if (arg.startsWith('--')) throw new Error(`Unknown flag "${arg}".\n\n${RUN_USAGE}`);
+
+		positional.push(arg);
+	}
+
+	const [profile, ...paths] = positional;
+
+	if (!profile) throw new Error(`Missing profile ID or title.\n\n${RUN_USAGE}`);
+
+	return {profile, paths, options, cwd};
+}
@@ -0,0 +1,246 @@
+/**
+ * Plugin permission manifests, declared in plugin's `package.json` as
+ * `drovp.permissions`, and translating them into Node.js permission model
+ * flags for processor threads.
+ *
+ * ```json
+ * "drovp": {
+ *   "permissions": {
+ *     "fsRead": ["{inputs}"],
+ *     "fsWrite": ["{inputDirectories}", "{temp}"],
+ *     "childProcess": true
+ *   }
+ * }
+ * ```
+ */
+import Path from 'path';
+import OS from 'os';
+import semverCompare from 'semver-compare';
+import {isType, Type} from 'lib/utils';
+
+export interface PluginPermissions {
+	fsRead?: string[]; // absolute paths, or tokens from PERMISSION_TOKENS
+	fsWrite?: string[];
+	childProcess?: boolean;
+	worker?: boolean;
+	addons?: boolean;
+	network?: boolean; // informational only, permission model doesn't restrict network
+}
+
+/**
+ * Paths that permission tokens resolve into for a single operation.
+ */
+export interface PermissionScope {
+	inputs: string[]; // paths of file and directory inputs
+	optionPaths: string[]; // absolute paths in operation options, such as output destinations
+	dataPath: string;
+}
+
+export const PERMISSION_TOKENS: Record<string, string> = {
+	'*': 'everything',
+	'{inputs}': 'input files and directories',
+	'{inputDirectories}': 'directories of inputs',
+	'{optionPaths}': 'paths set in profile options',
+	'{dataPath}': `plugin's data directory`,
+	'{temp}': 'temporary directory',
+	'{home}': 'home directory',
+};
+
+const BOOLEAN_PERMISSIONS = ['childProcess', 'worker', 'addons', 'network'] as const;
+
+/**
+ * Minimum Node.js version with permission model.
+ */
+export const MIN_PERMISSIONS_NODE_VERSION = '20.0.0';
+
+/**
+ * Flags added to permission model later, with the first version that supports
+ * them in each release line.
+ */
+const FLAG_NODE_VERSIONS: Record<string, string[]> = {
+	'--allow-addons': ['20.16.0', '21.6.0'],
+};
+
+const getMajorVersion = (version: string) => parseInt(version.split('.')[0]!, 10) || 0;
+
+function isFlagSupported(nodeVersion: string, flag: string) {
+	const versions = FLAG_NODE_VERSIONS[flag];
+	if (!versions) return true;
+	const major = getMajorVersion(nodeVersion);
+	const lineVersion = versions.find((version) => getMajorVersion(version) === major);
+	if (lineVersion) return semverCompare(nodeVersion, lineVersion) >= 0;
+	return major > getMajorVersion(versions[versions.length - 1]!);
+}
+
+export function validatePluginPermissions(value: unknown): value is PluginPermissions {
+	const errors: string[] = [];
+
+	if (!isType<{[key: string]: unknown}>(value, Type.Object)) {
+		errors.push(`not an object`);
+	} else {
+		for (const name of ['fsRead', 'fsWrite'] as const) {
+			const paths = value[name];
+			if (paths === undefined) continue;
+			if (!Array.isArray(paths)) {
+				errors.push(`"${name}" must be an array`);
+				continue;
+			}
+			for (const path of paths) {
+				if (typeof path !== 'string' || !(path in PERMISSION_TOKENS || Path.isAbsolute(path))) {
+					errors.push(`"${name}" path ${JSON.stringify(path)} is neither an absolute path, nor a token`);
+				}
+			}
+		}
+		for (const name of BOOLEAN_PERMISSIONS) {
+			if (!isType(value[name], Type.Boolean | Type.Undefined)) errors.push(`"${name}" must be a boolean`);
+		}
+	}
+
+	if (errors.length > 0) throw new Error(`Invalid permissions manifest:\n- ${errors.join('\n- ')}`);
+
+	return true;
+}
+
+/**
+ * Normalized string used to detect changes in permissions between versions.
+ * `null` means permissions are not declared, which is full access.
+ */
+export function serializePluginPermissions(permissions: PluginPermissions | null) {
+	if (!permissions) return 'null';
+	return JSON.stringify({
+		fsRead: [...(permissions.fsRead || [])].sort(),
+		fsWrite: [...(permissions.fsWrite || [])].sort(),
+		...Object.fromEntries(BOOLEAN_PERMISSIONS.map((name) => [name, permissions[name] === true])),
+	});
+}
+
+/**
+ * Human readable list of what permissions allow.
+ */
+export function describePluginPermissions(permissions: PluginPermissions | null) {
+	if (!permissions) return [`Full access, permissions are not declared.`];
+
+	const describePaths = (paths: string[]) =>
+		paths.map((path) => (PERMISSION_TOKENS[path] ? `${PERMISSION_TOKENS[path]} (${path})` : path)).join(', ');
+	const lines: string[] = [];
+
+	if (permissions.fsRead?.length) lines.push(`Read files: ${describePaths(permissions.fsRead)}`);
+	if (permissions.fsWrite?.length) lines.push(`Write files: ${describePaths(permissions.fsWrite)}`);
+	if (permissions.childProcess) lines.push(`Run other programs`);
+	if (permissions.worker) lines.push(`Spawn worker threads`);
+	if (permissions.addons) lines.push(`Load native addons`);
+	if (permissions.network) lines.push(`Access network`);
+	if (lines.length === 0) lines.push(`No special permissions.`);
+
+	return lines;
+}
+
+function resolvePaths(paths: string[] | undefined, scope: PermissionScope) {
+	const resolved: string[] = [];
+
+	for (const path of paths || []) {
+		switch (path) {
+			case '*':
+				return ['*'];
+			case '{inputs}':
+				resolved.push(...scope.inputs);
+				break;
+			case '{inputDirectories}':
+				resolved.push(...scope.inputs.map((path) => Path.dirname(path)), ...scope.inputs);
+				break;
+			case '{optionPaths}':
+				resolved.push(...scope.optionPaths);
+				break;
+			case '{dataPath}':
+				resolved.push(scope.dataPath);
+				break;
+			case '{temp}':
+				resolved.push(OS.tmpdir());
+				break;
+			case '{home}':
+				resolved.push(OS.homedir());
+				break;
+			default:
+				if (Path.isAbsolute(path)) resolved.push(path);
+		}
+	}
+
+	// Wildcard suffix allows access to everything inside directories
+	return [...new Set(resolved)].flatMap((path) => [path, Path.join(path, '*')]);
+}
+
+/**
+ * Creates Node.js flags that restrict a process to permissions, resolved for
+ * the operation's scope. `readable` paths are always allowed to be read, as
+ * the thread needs them to load the processor.
+ */
+export function getPermissionFlags(
+	nodeVersion: string,
+	permissions: PluginPermissions | null,
+	scope: PermissionScope,
+	readable: string[]
+) {
+	if (semverCompare(nodeVersion, MIN_PERMISSIONS_NODE_VERSION) < 0) {
+		throw new Error(
+			`Plugin permissions enforcement requires Node.js ${MIN_PERMISSIONS_NODE_VERSION} or newer, installed is ${nodeVersion}.`
+		);
+	}
+
+	// Flag lost its experimental prefix in 22.13.0, and 23.5.0
+	const major = getMajorVersion(nodeVersion);
+	const isStable =
+		semverCompare(nodeVersion, '23.5.0') >= 0 || (major === 22 && semverCompare(nodeVersion, '22.13.0') >= 0);
+	const flags = [isStable ? '--permission' : '--experimental-permission'];
+
+	// Node 20 accepts comma separated paths, later versions a flag per path
+	const pushPaths = (flag: string, paths: string[]) => {
+		if (paths.length === 0) return;
+		if (major < 22) {
+			const pathWithComma = paths.find((path) => path.includes(','));
+			if (pathWithComma) {
+				throw new Error(
+					`Path "${pathWithComma}" contains a comma, which Node.js ${nodeVersion} can't pass to permission flags. Node.js 22 or newer is required.`
+				);
+			}
+			flags.push(`${flag}=${paths.join(',')}`);
+		} else {
+			for (const path of paths) flags.push(`${flag}=${path}`);
+		}
+	};
+	const pushFlag = (flag: string) => {
+		if (!isFlagSupported(nodeVersion, flag)) {
+			const versions = FLAG_NODE_VERSIONS[flag]!.join(', ');
+			throw new Error(
+				`Plugin permissions require "${flag}" flag, which Node.js ${nodeVersion} doesn't support. Supported since: ${versions}.`
+			);
+		}
+		flags.push(flag);
+	};
+
+	const dataPaths = resolvePaths(['{dataPath}'], scope);
+	const read = resolvePaths(permissions?.fsRead, scope);
+	const write = resolvePaths(permissions?.fsWrite, scope);
+	pushPaths('--allow-fs-read', read[0] === '*' ? read : [...resolvePaths(readable, scope), ...dataPaths, ...read]);
+	pushPaths('--allow-fs-write', write[0] === '*' ? write : [...dataPaths, ...write]);
+
+	if (permissions?.childProcess) pushFlag('--allow-child-process');
+	if (permissions?.worker) pushFlag('--allow-worker');
+	if (permissions?.addons) pushFlag('--allow-addons');
+
+	return flags;
+}
+
+/**
+ * Collects absolute paths from operation options, which is where processors
+ * usually get their output destinations from.
+ */
+export function extractOptionPaths(value: unknown, paths: string[] = []) {
+	if (typeof value === 'string') {
+		if (Path.isAbsolute(value)) paths.push(value);
+	} else if (Array.isArray(value)) {
+		for (const item of value) extractOptionPaths(item, paths);
+	} else if (isType<Record<string, unknown>>(value, Type.Object)) {
+		for (const item of Object.values(value)) extractOptionPaths(item, paths);
+	}
+	return paths;
+}
@@ -0,0 +1,118 @@
+/**
+ * Plugin version ranges used for pinning, and backups of installed plugin
+ * directories used for rolling back updates.
+ */
+import Path from 'path';
+import {promises as FSP} from 'fs';
+import semverCompare from 'semver-compare';
+import {isType, Type} from 'lib/utils';
+import {copyPath, deletePath, outputJson, readJson} from 'lib/fs';
+
+/**
+ * Supports the subset of npm ranges that plugin identifiers accept: exact
+ * versions, `^` and `~` ranges, and partial or `x` versions such as `1`,
+ * `1.2`, or `1.x`.
+ */
+const versionRangeRegExp = /^(?<operator>\^|~)?(?<major>\d+)(\.(?<minor>\d+|x))?(\.(?<patch>\d+|x))?$/i;
+const versionRegExp = /^\d+\.\d+\.\d+$/;
+
+export function isValidVersionRange(range: string) {
+	return versionRangeRegExp.test(range);
+}
+
+/**
+ * Checks if version satisfies the range. Pre-release versions only satisfy
+ * their exact range.
+ */
+export function satisfiesVersionRange(version: string, range: string) {
+	if (version === range) return true;
+
+	const groups = versionRangeRegExp.exec(range)?.groups;
+	if (!groups || !versionRegExp.test(version)) return false;
+
+	const {operator, major, minor, patch} = groups;
+	const isSet = (part?: string) => part != null && part.toLowerCase() !== 'x';
+	const precision = isSet(minor) ? (isSet(patch) ? 3 : 2) : 1;
+	const lower = [major, minor, patch].map((part, index) => (index < precision ? parseInt(part!, 10) : 0));
+	let bumpIndex = precision - 1;
+
+	if (operator === '^') {
+		const firstNonZeroIndex = lower.slice(0, precision).findIndex((part) => part > 0);
+		if (firstNonZeroIndex > -1) bumpIndex = firstNonZeroIndex;
+	} else if (operator === '~') {
+		bumpIndex = Math.min(precision, 2) - 1;
+	}
+
+	const upper = lower.map((part, index) => (index < bumpIndex ? part : index === bumpIndex ? part + 1 : 0));
+
+	return semverCompare(version, lower.join('.')) >= 0 && semverCompare(version, upper.join('.')) < 0;
+}
+
+/**
+ * Highest version satisfying the range, if any.
+ */
+export function maxSatisfyingVersion(versions: string[], range: string) {
+	return versions
+		.filter((version) => satisfiesVersionRange(version, range))
+		.sort(semverCompare)
+		.pop();
+}
+
+export interface PluginBackup {
+	name: string;
+	version: string;
+	created: number;
+	path: string; // backed up plugin directory, not serialized
+}
+
+/**
+ * Each plugin has at most one backup, of the version it had before the last
+ * update or downgrade.
+ */
+export function getPluginBackupPath(backupsPath: string, name: string) {
+	return Path.join(backupsPath, encodeURIComponent(name));
+}
+
+export async function createPluginBackup(backupsPath: string, name: string, version: string, pluginPath: string) {
+	const backupPath = getPluginBackupPath(backupsPath, name);
+	const backup: PluginBackup = {name, version, created: Date.now(), path: Path.join(backupPath, 'plugin')};
+	await deletePath(backupPath);
+	await copyPath(pluginPath, backup.path);
+	await outputJson(Path.join(backupPath, 'backup.json'), {name, version, created: backup.created}, {space: 2});
+	return backup;
+}
+
+export async function loadPluginBackups(backupsPath: string) {
+	const backups = new Map<string, PluginBackup>();
+	let directories: string[];
+
+	try {
+		directories = await FSP.readdir(backupsPath);
+	} catch (error) {
+		if ((error as any)?.code === 'ENOENT') return backups;
+		throw error;
+	}
+
+	for (const directory of directories) {
+		try {
+			const backup = await readJson(Path.join(backupsPath, directory, 'backup.json'));
+			if (isType<PluginBackup>(backup, Type.Object) && isType(backup.name, Type.String)) {
+				backups.set(backup.name, {...backup, path: Path.join(backupsPath, directory, 'plugin')});
+			}
+		} catch {}
+	}
+
+	return backups;
+}
+
+/**
+ * Replaces plugin directory with its backup.
+ */
+export async function restorePluginBackup(backup: PluginBackup, pluginPath: string) {
+	await deletePath(pluginPath);
+	await copyPath(backup.path, pluginPath);
+}
+
+export async function deletePluginBackup(backupsPath: string, name: string) {
+	await deletePath(getPluginBackupPath(backupsPath, name));
+}
@@ -0,0 +1,182 @@
+/**
+ * Plugins lockfile, and resolving of local plugin sources.
+ */
+import Path from 'path';
+import {promises as FSP} from 'fs';
+import {pathToFileURL, fileURLToPath} from 'url';
+import {createHash} from 'crypto';
+import manifest from 'manifest';
+import {isType, Type, spawn, convertPathToPOSIX} from 'lib/utils';
+import {exists, readJson} from 'lib/fs';
+
+export const PLUGINS_LOCKFILE_VERSION = 1;
+
+/**
+ * Directory inside plugins directory where installed tarballs are copied to.
+ * Starts with a dot so that it's not serialized as a local plugin.
+ */
+export const TARBALLS_DIRECTORY = '.tarballs';
+
+export interface PluginLock {
+	version: string;
+	source: string; // identifier the plugin was installed with
+	resolved?: string; // tarball url, git url with commit, or link path
+	integrity?: string; // also recorded for local tarballs
+}
+
+export interface PluginsLockfile {
+	lockfileVersion: number;
+	app: string; // version of the app that created the lockfile
+	plugins: Record<string, PluginLock>;
+}
+
+/**
+ * Creates lockfile from plugins directory's `package.json`, and exact
+ * versions and integrity hashes npm recorded into its `package-lock.json`.
+ * Local `file:` sources are recorded relative to plugins directory.
+ */
+export async function createPluginsLockfile(pluginsPath: string): Promise<PluginsLockfile> {
+	const dependencies = (await readJsonMaybe(Path.join(pluginsPath, 'package.json')))?.dependencies;
+	const packages = (await readJsonMaybe(Path.join(pluginsPath, 'package-lock.json')))?.packages;
+	const plugins: Record<string, PluginLock> = {};
+
+	if (isType<Record<string, unknown>>(dependencies, Type.Object)) {
+		for (const [name, source] of Object.entries(dependencies)) {
+			if (typeof source !== 'string') continue;
+			const locked = packages?.[`node_modules/${name}`];
+			const version =
+				locked?.version ||
+				(await readJsonMaybe(Path.join(pluginsPath, 'node_modules', name, 'package.json')))?.version;
+			if (typeof version !== 'string') continue;
+			const lock: PluginLock = {
+				version,
+				source: relativizeFileSpec(pluginsPath, source),
+				resolved:
+					typeof locked?.resolved === 'string' ? relativizeFileSpec(pluginsPath, locked.resolved) : undefined,
+				integrity: locked?.integrity,
+			};
+			if (!lock.integrity && lock.source.startsWith('file:')) {
+				lock.integrity = await getFileIntegrity(Path.resolve(pluginsPath, lock.source.slice(5)));
+			}
+			plugins[name] = lock;
+		}
+	}
+
+	return {lockfileVersion: PLUGINS_LOCKFILE_VERSION, app: manifest.version, plugins};
+}
+
+export function validatePluginsLockfile(data: unknown): data is PluginsLockfile {
+	const errors: string[] = [];
+
+	if (!isType<{[key: string]: unknown}>(data, Type.Object)) {
+		errors.push(`not an object`);
+	} else {
+		if (data.lockfileVersion !== PLUGINS_LOCKFILE_VERSION) {
+			errors.push(`unsupported "lockfileVersion" ${JSON.stringify(data.lockfileVersion)}`);
+		}
+		if (isType<{[key: string]: unknown}>(data.plugins, Type.Object)) {
+			for (const [name, lock] of Object.entries(data.plugins)) {
+				if (
+					!isType<{[key: string]: unknown}>(lock, Type.Object) ||
+					!isType(lock.version, Type.String) ||
+					!isType(lock.source, Type.String)
+				) {
+					errors.push(`plugin "${name}" is missing "version" or "source"`);
+				}
+			}
+		} else {
+			errors.push(`missing "plugins"`);
+		}
+	}
+
+	if (errors.length > 0) throw new Error(`Invalid plugins lockfile:\n- ${errors.join('\n- ')}`);
+
+	return true;
+}
+
+/**
+ * Identifier that installs exactly the locked version of a plugin. Registry
+ * plugins are pinned to their version, and git sources to their commit.
+ */
+export function getLockedInstallId(name: string, {version, source, resolved}: PluginLock) {
+	if (!source.includes(':')) return `${name}@${version}`;
+	if (resolved?.startsWith('git')) return resolved;
+	return source;
+}
+
+/**
+ * Returns path of a local source the install identifier depends on, when it
+ * doesn't exist on this machine.
+ */
+export async function getMissingLocalSource(pluginsPath: string, installId: string) {
+	let path: string | undefined;
+	if (installId.startsWith('file:')) path = Path.resolve(pluginsPath, installId.slice(5));
+	else if (installId.startsWith('git+file:')) path = fileURLToPath(installId.slice(4).split('#')[0]!);
+	return path && !(await exists(path)) ? path : undefined;
+}
+
+/**
+ * Resolves path to a tarball or a local git checkout into an npm install
+ * identifier. Tarballs are copied into plugins directory, so that the install
+ * doesn't depend on the original file, and git checkouts are installed at
+ * their current commit.
+ */
+export async function resolveLocalPluginSource(
+	pluginsPath: string,
+	path: string,
+	onWarning?: (message: string) => void
+) {
+	const stat = await FSP.stat(path);
+
+	if (stat.isFile() && /\.(tgz|tar\.gz|tar)$/i.test(path)) {
+		// Content hash prevents different tarballs with the same name from colliding
+		const buffer = await FSP.readFile(path);
+		const hash = createHash('sha1').update(buffer).digest('hex');
+		const fileName = `${hash.slice(0, 12)}-${Path.basename(path)}`;
+		await FSP.mkdir(Path.join(pluginsPath, TARBALLS_DIRECTORY), {recursive: true});
+		await FSP.copyFile(path, Path.join(pluginsPath, TARBALLS_DIRECTORY, fileName));
+		return `file:${TARBALLS_DIRECTORY}/${fileName}`;
+	}
+
+	if (stat.isDirectory() && (await exists(Path.join(path, '.git')))) {
+		const commit = `${(await spawn('git', ['rev-parse', 'HEAD'], {cwd: path})).stdout || ''}`.trim();
+		const changes = `${(await spawn('git', ['status', '--porcelain'], {cwd: path})).stdout || ''}`.trim();
+		if (changes) onWarning?.(`Git checkout "${path}" has uncommitted changes, only commit ${commit} is installed.`);
+		return `git+${pathToFileURL(path).href}#${commit}`;
+	}
+
+	if (stat.isDirectory() && (await exists(Path.join(path, 'package.json')))) return path;
+
+	throw new Error(`"${path}" is not a plugin tarball (.tgz, .tar.gz, .tar), or a directory with a plugin.`);
+}
+
+/**
+ * Turns `file:` spec into one relative to plugins directory, as npm might
+ * record them as absolute paths, which don't work on other machines.
+ */
+function relativizeFileSpec(pluginsPath: string, spec: string) {
+	if (!spec.startsWith('file:')) return spec;
+	const path = spec.startsWith('file://') ? fileURLToPath(spec) : Path.resolve(pluginsPath, spec.slice(5));
+	return `file:${convertPathToPOSIX(Path.relative(pluginsPath, path)) || '.'}`;
+}
+
+/**
+ * Integrity of a file in the same format npm uses.
+ */
+async function getFileIntegrity(path: string) {
+	try {
+		if (!(await FSP.stat(path)).isFile()) return undefined;
+		const buffer = await FSP.readFile(path);
+		return `sha512-${createHash('sha512').update(buffer).digest('base64')}`;
+	} catch {
+		return undefined;
+	}
+}
+
+async function readJsonMaybe(path: string): Promise<any> {
+	try {
+		return await readJson(path);
+	} catch {
+		return undefined;
+	}
+}
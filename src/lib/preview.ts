@@ -0,0 +1,288 @@
+import {promises as FSP} from 'fs';
+import Path from 'path';
+import {createHash} from 'crypto';
+import {nativeImage, NativeImage} from 'electron';
+import {deletePath, exists, outputFile, outputJson, readJson} from 'lib/fs';
+
+/**
+ * Helpers for output item previews. Image thumbnails are generated with
+ * electron's nativeImage, which can decode only png and jpg on all platforms,
+ * so we only attempt those.
+ */
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+// Images above this are not worth freezing the UI for on platforms without native thumbnailer
+const MAX_DECODED_PIXELS = 50_000_000;
+const HAS_NATIVE_THUMBNAILER = process.platform === 'darwin' || process.platform === 'win32';
+const TEXT_EXTENSIONS = [
+	'txt',
+	'log',
+	'md',
+	'json',
+	'jsonl',
+	'csv',
+	'tsv',
+	'xml',
+	'svg',
+	'html',
+	'css',
+	'js',
+	'ts',
+	'yml',
+	'yaml',
+	'toml',
+	'ini',
+	'srt',
+	'vtt',
+];
+const MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+	ico: 'image/x-icon',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	svg: 'image/svg+xml',
+	txt: 'text/plain',
+	log: 'text/plain',
+	md: 'text/markdown',
+	json: 'application/json',
+	jsonl: 'application/jsonl',
+	csv: 'text/csv',
+	tsv: 'text/tab-separated-values',
+	xml: 'application/xml',
+	html: 'text/html',
+	css: 'text/css',
+	js: 'text/javascript',
+	ts: 'text/typescript',
+	yml: 'application/yaml',
+	yaml: 'application/yaml',
+	srt: 'application/x-subrip',
+	vtt: 'text/vtt',
+	pdf: 'application/pdf',
+	zip: 'application/zip',
+	mp3: 'audio/mpeg',
+	ogg: 'audio/ogg',
+	wav: 'audio/wav',
+	flac: 'audio/flac',
+	mp4: 'video/mp4',
+	webm: 'video/webm',
+	mkv: 'video/x-matroska',
+	mov: 'video/quicktime',
+};
+
+export interface Thumbnail {
+	path: string;
+	width: number; // of the original image
+	height: number; // of the original image
+}
+
+export interface TextPreview {
+	text: string;
+	truncated: boolean;
+}
+
+export type JSONTokenType = 'key' | 'string' | 'number' | 'literal' | 'punctuation' | 'text';
+
+export interface JSONToken {
+	type: JSONTokenType;
+	value: string;
+}
+
+const getExtension = (path: string) => Path.extname(path).slice(1).toLowerCase();
+
+export const isImagePath = (path: string) => IMAGE_EXTENSIONS.includes(getExtension(path));
+export const isTextPath = (path: string) => TEXT_EXTENSIONS.includes(getExtension(path));
+export const getMimeType = (path: string): string | null => MIME_TYPES[getExtension(path)] || null;
+
+/**
+ * Returns a thumbnail of an image file, generating it into cache directory
+ * when it doesn't exist yet. Cache key is built from the file path, size,
+ * and modification time, so modified files get new thumbnails.
+ * Resolves with `null` for images nativeImage can't decode, or that are too
+ * big to decode without a native thumbnailer.
+ * Cached thumbnails are touched when used, which `pruneThumbnails()` relies on.
+ */
+export async function getThumbnail(path: string, cacheDirectory: string, size = 256): Promise<Thumbnail | null> {
+	const stat = await FSP.stat(path);
+	const key = createHash('sha1').update(`${path}:${stat.size}:${stat.mtimeMs}:${size}`).digest('hex');
+	const thumbnailPath = Path.join(cacheDirectory, `${key}.png`);
+	const metaPath = Path.join(cacheDirectory, `${key}.json`);
+
+	if ((await exists(thumbnailPath)) && (await exists(metaPath))) {
+		const {width, height} = await readJson(metaPath);
+		const now = new Date();
+		await FSP.utimes(metaPath, now, now);
+		return {path: thumbnailPath, width, height};
+	}
+
+	const buffer = await FSP.readFile(path);
+	const dimensions = readImageSize(buffer);
+	if (!dimensions) return null;
+
+	const {width, height} = dimensions;
+	if (!HAS_NATIVE_THUMBNAILER && width * height > MAX_DECODED_PIXELS) return null;
+
+	const scale = Math.min(1, size / Math.max(width, height));
+	const thumbnail = await createThumbnail(path, buffer, {
+		width: Math.max(1, Math.round(width * scale)),
+		height: Math.max(1, Math.round(height * scale)),
+	});
+	if (!thumbnail || thumbnail.isEmpty()) return null;
+
+	await outputFile(thumbnailPath, thumbnail.toPNG());
+	await outputJson(metaPath, {width, height});
+
+	return {path: thumbnailPath, width, height};
+}
+
+/**
+ * macOS and Windows generate thumbnails natively off the main thread. Elsewhere
+ * we have to decode the image synchronously, so it's at least deferred until
+ * the renderer is idle, and decodes are queued so they don't pile up into one
+ * long freeze.
+ */
+let decodeQueue: Promise<unknown> = Promise.resolve();
+async function createThumbnail(path: string, buffer: Buffer, size: {width: number; height: number}) {
+	if (HAS_NATIVE_THUMBNAILER) {
+		try {
+			return await nativeImage.createThumbnailFromPath(path, size);
+		} catch {
+			return null;
+		}
+	}
+
+	const result = decodeQueue.then(
+		() =>
+			new Promise<NativeImage | null>((resolve) => {
+				requestIdleCallback(() => {
+					const image = nativeImage.createFromBuffer(buffer);
+					if (image.isEmpty()) resolve(null);
+					else resolve(image.resize({width: size.width, quality: 'good'}));
+				});
+			})
+	);
+	decodeQueue = result.catch(() => {});
+	return result;
+}
+
+/**
+ * Reads dimensions from png or jpeg header without decoding the image.
+ */
+function readImageSize(buffer: Buffer): {width: number; height: number} | null {
+	// PNG: signature followed by IHDR chunk
+	if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+		return {width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20)};
+	}
+
+	// JPEG: walk segments until a start of frame marker
+	if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+	let offset = 2;
+	while (offset + 9 < buffer.length) {
+		if (buffer[offset] !== 0xff) return null;
+		const marker = buffer[offset + 1]!;
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+		if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			return {width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5)};
+		}
+		offset += 2 + buffer.readUInt16BE(offset + 2);
+	}
+
+	return null;
+}
+
+/**
+ * Deletes the least recently used thumbnails until the cache directory fits
+ * into `maxSize` bytes.
+ */
+export async function pruneThumbnails(cacheDirectory: string, maxSize = 100 * 1024 * 1024) {
+	let files: string[];
+	try {
+		files = await FSP.readdir(cacheDirectory);
+	} catch {
+		return;
+	}
+
+	// Thumbnail and its meta file share the same key
+	const entries = new Map<string, {size: number; used: number; paths: string[]}>();
+	for (const file of files) {
+		const path = Path.join(cacheDirectory, file);
+		try {
+			const stat = await FSP.stat(path);
+			const key = Path.basename(file, Path.extname(file));
+			const entry = entries.get(key) || {size: 0, used: 0, paths: []};
+			entry.size += stat.size;
+			entry.used = Math.max(entry.used, stat.mtimeMs);
+			entry.paths.push(path);
+			entries.set(key, entry);
+		} catch {}
+	}
+
+	let size = 0;
+	for (const entry of [...entries.values()].sort((a, b) => b.used - a.used)) {
+		size += entry.size;
+		if (size > maxSize) for (const path of entry.paths) await deletePath(path);
+	}
+}
+
+/**
+ * Reads up to `limit` bytes of a text file.
+ */
+export async function readTextPreview(path: string, limit = 100_000): Promise<TextPreview> {
+	const file = await FSP.open(path, 'r');
+	try {
+		const {size} = await file.stat();
+		const buffer = Buffer.alloc(Math.min(size, limit));
+		const {bytesRead} = await file.read(buffer, 0, buffer.length, 0);
+		return {text: buffer.subarray(0, bytesRead).toString('utf8'), truncated: size > limit};
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Returns pretty printed JSON when text is a valid JSON object or array.
+ */
+export function prettifyJSON(text: string): string | null {
+	const trimmed = text.trim();
+	if (!/^[[{]/.test(trimmed)) return null;
+	try {
+		return JSON.stringify(JSON.parse(trimmed), null, 2);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Splits JSON into tokens for syntax highlighting. Doesn't validate, so
+ * anything unexpected is just passed through as `text`.
+ */
+export function tokenizeJSON(json: string): JSONToken[] {
+	const tokens: JSONToken[] = [];
+	const regexp =
+		/("(?:\\.|[^"\\])*")(\s*:)?|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|(true|false|null)|([{}[\],:])|([^"\d{}[\],:tfn-]+|.)/g;
+	let match: RegExpExecArray | null;
+
+	while ((match = regexp.exec(json))) {
+		const [, string, colon, number, literal, punctuation, text] = match;
+		if (string != null) {
+			tokens.push({type: colon != null ? 'key' : 'string', value: string});
+			if (colon != null) tokens.push({type: 'punctuation', value: colon});
+		} else if (number != null) {
+			tokens.push({type: 'number', value: number});
+		} else if (literal != null) {
+			tokens.push({type: 'literal', value: literal});
+		} else if (punctuation != null) {
+			tokens.push({type: 'punctuation', value: punctuation});
+		} else {
+			tokens.push({type: 'text', value: text ?? match[0]});
+		}
+	}
+
+	return tokens;
+}
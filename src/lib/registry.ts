@@ -1,12 +1,21 @@
 import manifest from 'manifest';
+import semverCompare from 'semver-compare';
 import {fetchJson} from 'lib/utils';
 import {pluginNameMeta} from 'lib/serialize';
+import {maxSatisfyingVersion} from 'lib/pluginVersions';
 
-// Registry response has an additional date property with last release date
-export type PluginRegistryMeta = Omit<PluginMeta, 'date' | 'main'> & {date: string};
+// Registry response has an additional date property with last release date,
+// and a history of all published versions
+export type PluginRegistryMeta = Omit<PluginMeta, 'date' | 'main'> & {date: string; versions?: RegistryVersion[]};
+
+export interface RegistryVersion {
+	version: string;
+	date?: string;
+	deprecated?: string;
+}
 
 export interface PackageResponse {
-	['dist-tags']: {latest: string};
+	['dist-tags']: {latest: string; [key: string]: string};
 	versions: {[key: string]: Manifest};
 	time: {[key: string]: string};
 	readme: string;
@@ -48,15 +57,74 @@ export interface SearchResult {
 	plugins: PluginRegistryMeta[];
 }
 
-export class Registry {
+export const DEFAULT_REGISTRY_URL = 'https://registry.npmjs.org';
+
+export interface RegistryConfig {
 	url: string;
+	scopes: Record<string, string>; // `@scope` -> registry url
+	tokens: Record<string, string>; // registry url -> auth token
+}
+
+export class Registry {
+	config: RegistryConfig;
+
+	constructor(config: Partial<RegistryConfig> = {}) {
+		this.config = normalizeConfig(config);
+	}
+
+	get url() {
+		return this.config.url;
+	}
+
+	configure = (config: Partial<RegistryConfig>) => {
+		this.config = normalizeConfig(config);
+	};
+
+	/**
+	 * Registry url for a package, taking scope mapping into account.
+	 */
+	getUrl(packageName?: string) {
+		const scope = packageName?.startsWith('@') ? packageName.split('/')[0]! : null;
+		return (scope && this.config.scopes[scope]) || this.config.url;
+	}
 
-	constructor(url: string) {
-		this.url = url;
+	/**
+	 * Auth token of the most specific registry url that contains passed url.
+	 */
+	getToken(url: string): string | undefined {
+		let match: string | undefined;
+		for (const registryUrl of Object.keys(this.config.tokens)) {
+			if (`${url}/`.startsWith(`${registryUrl}/`) && (!match || registryUrl.length > match.length)) {
+				match = registryUrl;
+			}
+		}
+		return match ? this.config.tokens[match] : undefined;
+	}
+
+	/**
+	 * Serializes config into `.npmrc` format, so that npm uses the same
+	 * registries and tokens.
+	 */
+	toNpmrc() {
+		const lines = [`registry=${this.config.url}/`];
+		for (const [scope, url] of Object.entries(this.config.scopes)) lines.push(`${scope}:registry=${url}/`);
+		for (const [url, token] of Object.entries(this.config.tokens)) {
+			lines.push(`${url.replace(/^https?:/, '')}/:_authToken=${token}`);
+		}
+		return `${lines.join('\n')}\n`;
+	}
+
+	isDefault() {
+		const {url, scopes, tokens} = this.config;
+		return url === DEFAULT_REGISTRY_URL && Object.keys(scopes).length === 0 && Object.keys(tokens).length === 0;
 	}
 
 	protected async request(url: string, fetchOptions: Parameters<typeof fetch>[1]) {
-		return await fetchJson(url, fetchOptions);
+		const token = this.getToken(url);
+		if (!token) return await fetchJson(url, fetchOptions);
+		const headers = new Headers(fetchOptions?.headers);
+		headers.set('Authorization', `Bearer ${token}`);
+		return await fetchJson(url, {...fetchOptions, headers});
 	}
 
 	async search(
@@ -86,7 +154,8 @@ export class Registry {
 	}
 
 	async meta(pluginName: string, fetchOptions?: Parameters<typeof fetch>[1]): Promise<PluginRegistryMeta> {
-		const body = (await this.request(`${this.url}/${pluginName}`, fetchOptions)) as PackageResponse;
+		const url = `${this.getUrl(pluginName)}/${pluginName}`;
+		const body = (await this.request(url, fetchOptions)) as PackageResponse;
 		const latestVersion = body['dist-tags'].latest;
 		return {
 			...body.versions[latestVersion],
@@ -94,12 +163,63 @@ export class Registry {
 			version: latestVersion,
 			readme: body.readme,
 			date: body.time[latestVersion]!,
+			versions: Object.keys(body.versions)
+				.sort((a, b) => semverCompare(b, a))
+				.map((version) => ({
+					version,
+					date: body.time[version],
+					deprecated: body.versions[version]?.deprecated,
+				})),
 		};
 	}
 
+	/**
+	 * Manifest of a version matching dist tag, exact version, or the highest
+	 * one satisfying a version range.
+	 */
+	async manifest(
+		pluginName: string,
+		range = 'latest',
+		fetchOptions?: Parameters<typeof fetch>[1]
+	): Promise<Manifest> {
+		const url = `${this.getUrl(pluginName)}/${pluginName}`;
+		const body = (await this.request(url, fetchOptions)) as PackageResponse;
+		const version = body['dist-tags'][range] || maxSatisfyingVersion(Object.keys(body.versions), range);
+		const manifest = version ? body.versions[version] : undefined;
+		if (!manifest) throw new Error(`Plugin "${pluginName}" has no version matching "${range}".`);
+		return manifest;
+	}
+
 	async latestVersion(pluginName: string, fetchOptions?: Parameters<typeof fetch>[1]): Promise<string> {
-		return ((await this.request(`${this.url}/${pluginName}/latest`, fetchOptions)) as Manifest).version;
+		const url = `${this.getUrl(pluginName)}/${pluginName}/latest`;
+		return ((await this.request(url, fetchOptions)) as Manifest).version;
 	}
 }
 
-export const registry = new Registry('https://registry.npmjs.org');
+/**
+ * Parses `key=value` lines, as used by registry scopes and tokens settings.
+ * Lines without a key or value are ignored.
+ */
+export function parseRegistryMapping(lines: string[]) {
+	const mapping: Record<string, string> = {};
+	for (const line of lines) {
+		const index = line.indexOf('=');
+		const key = line.slice(0, index).trim();
+		const value = line.slice(index + 1).trim();
+		if (index > 0 && key && value) mapping[key] = value;
+	}
+	return mapping;
+}
+
+function normalizeUrl(url: string) {
+	return url.trim().replace(/\/+$/, '');
+}
+
+function normalizeConfig({url, scopes = {}, tokens = {}}: Partial<RegistryConfig>): RegistryConfig {
+	const config: RegistryConfig = {url: normalizeUrl(url || DEFAULT_REGISTRY_URL), scopes: {}, tokens: {}};
+	for (const [scope, scopeUrl] of Object.entries(scopes)) config.scopes[scope.trim()] = normalizeUrl(scopeUrl);
+	for (const [tokenUrl, token] of Object.entries(tokens)) config.tokens[normalizeUrl(tokenUrl)] = token.trim();
+	return config;
+}
+
+export const registry = new Registry();
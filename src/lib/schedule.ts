@@ -0,0 +1,81 @@
+/**
+ * Helpers for profile schedules, which are a list of week days, and a list of
+ * `HH:MM-HH:MM` time ranges during which profile operations can start.
+ */
+
+export const WEEK_DAYS = {
+	mon: 'Mon',
+	tue: 'Tue',
+	wed: 'Wed',
+	thu: 'Thu',
+	fri: 'Fri',
+	sat: 'Sat',
+	sun: 'Sun',
+};
+
+export type WeekDay = keyof typeof WEEK_DAYS;
+
+// Ordered as returned by `Date.getDay()`
+const DAYS_BY_INDEX: WeekDay[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Start and end of a range in minutes since midnight. Ranges with end before
+ * start continue into the next day, and ranges with end equal to start span
+ * the whole day.
+ */
+export interface TimeRange {
+	from: number;
+	to: number;
+}
+
+export function parseTimeRange(value: string): TimeRange | null {
+	const match = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(value);
+	if (!match) return null;
+	const [fromHours, fromMinutes, toHours, toMinutes] = match.slice(1).map((part) => parseInt(part, 10)) as number[];
+	if (fromHours == null || fromMinutes == null || toHours == null || toMinutes == null) return null;
+	if (fromHours > 23 || toHours > 24 || fromMinutes > 59 || toMinutes > 59) return null;
+	if (toHours === 24 && toMinutes > 0) return null;
+	return {from: fromHours * 60 + fromMinutes, to: (toHours * 60 + toMinutes) % (24 * 60)};
+}
+
+export const isValidTimeRange = (value: string) => parseTimeRange(value) != null;
+
+/**
+ * Returns `null` when `time` is inside the schedule, or a timestamp of when it
+ * next opens, which is `Infinity` when it never does.
+ * Ranges belong to the day they start on. Empty ranges list means whole days.
+ */
+export function getScheduleOpening(days: string[], ranges: TimeRange[], time = Date.now()): number | null {
+	const date = new Date(time);
+	let opening = Infinity;
+
+	if (ranges.length === 0) ranges = [{from: 0, to: 0}];
+
+	// Starting a day before, since its ranges might continue into today
+	for (let offset = -1; offset <= 7; offset++) {
+		const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+		if (!days.includes(DAYS_BY_INDEX[day.getDay()]!)) continue;
+
+		for (const {from, to} of ranges) {
+			const [year, month, dayOfMonth] = [day.getFullYear(), day.getMonth(), day.getDate()];
+			const start = new Date(year, month, dayOfMonth, 0, from).getTime();
+			const end = new Date(year, month, to > from ? dayOfMonth : dayOfMonth + 1, 0, to).getTime();
+			if (time >= start && time < end) return null;
+			if (start > time) opening = Math.min(opening, start);
+		}
+	}
+
+	return opening;
+}
+
+/**
+ * Formats schedule opening time as `22:00`, or `Sat 22:00` when it's not today.
+ */
+export function formatScheduleOpening(opening: number, now = Date.now()) {
+	if (!Number.isFinite(opening)) return 'never';
+	const date = new Date(opening);
+	const time = `${date.getHours()}`.padStart(2, '0') + ':' + `${date.getMinutes()}`.padStart(2, '0');
+	return date.toDateString() === new Date(now).toDateString()
+		? time
+		: `${WEEK_DAYS[DAYS_BY_INDEX[date.getDay()]!]} ${time}`;
+}
@@ -194,6 +194,7 @@ export function validateProfileImportData(data: unknown): data is ProfileExportD
 		if (!isType(data.options, Type.Undefined | Type.Object)) {
 			errors.push(`"options" must be undefined or an object`);
 		}
+		if (!isType(data.chainTo, Type.Undefined | Type.String)) errors.push(`"chainTo" must be a string or undefined`);
 	}
 
 	if (errors.length > 0) throw new Error(`Invalid import data:\n- ${errors.join('\n- ')}`);
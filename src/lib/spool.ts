@@ -0,0 +1,79 @@
+import {promises as FSP, appendFileSync, mkdirSync} from 'fs';
+import Path from 'path';
+import {deletePath} from 'lib/fs';
+
+/**
+ * Appends data to a file in batches. Writes are buffered and flushed at most
+ * once per `interval`, so that chatty sources don't cause a write per line.
+ */
+export class FileSpool {
+	readonly path: string;
+	interval: number;
+	protected buffer: string[] = [];
+	protected timeoutId: ReturnType<typeof setTimeout> | null = null;
+	protected writing: Promise<void> = Promise.resolve();
+
+	constructor(path: string, {interval = 1000}: {interval?: number} = {}) {
+		this.path = path;
+		this.interval = interval;
+	}
+
+	write = (data: string) => {
+		this.buffer.push(data);
+		if (!this.timeoutId) this.timeoutId = setTimeout(this.flush, this.interval);
+	};
+
+	/**
+	 * Writes buffered data, and resolves once everything written so far is
+	 * on the disk.
+	 */
+	flush = () => {
+		if (this.timeoutId) clearTimeout(this.timeoutId);
+		this.timeoutId = null;
+
+		if (this.buffer.length > 0) {
+			const data = this.buffer.join('');
+			this.buffer = [];
+			this.writing = this.writing.then(async () => {
+				try {
+					await FSP.mkdir(Path.dirname(this.path), {recursive: true});
+					await FSP.appendFile(this.path, data);
+				} catch (error) {
+					console.error(`FileSpool write to "${this.path}" failed:`, error);
+				}
+			});
+		}
+
+		return this.writing;
+	};
+
+	/**
+	 * Writes buffered data synchronously, for when the window is closing and
+	 * there is no time to wait for promises.
+	 */
+	flushSync = () => {
+		if (this.timeoutId) clearTimeout(this.timeoutId);
+		this.timeoutId = null;
+		if (this.buffer.length === 0) return;
+
+		const data = this.buffer.join('');
+		this.buffer = [];
+		try {
+			mkdirSync(Path.dirname(this.path), {recursive: true});
+			appendFileSync(this.path, data);
+		} catch (error) {
+			console.error(`FileSpool write to "${this.path}" failed:`, error);
+		}
+	};
+
+	/**
+	 * Discards buffered data and deletes the file.
+	 */
+	delete = async () => {
+		if (this.timeoutId) clearTimeout(this.timeoutId);
+		this.timeoutId = null;
+		this.buffer = [];
+		await this.writing;
+		await deletePath(this.path);
+	};
+}
@@ -8,6 +8,7 @@ import {deletePath} from 'lib/fs';
 import http from 'http';
 import https from 'https';
 import CP from 'child_process';
+import {createHash} from 'crypto';
 
 const FSP = FS.promises;
 
@@ -355,6 +356,75 @@ export const prevented = (fn?: Function) => (event: Event) => {
  */
 export const convertPathToPOSIX = (path: string): string => path.replace(/\\+/g, '/');
 
+/**
+ * Converts a glob pattern into a regular expression matching POSIX paths.
+ * Supports `*`, `**`, `?`, `[abc]`, and `{a,b}`. Patterns without a slash
+ * match file basename at any depth, same as in `.gitignore`.
+ *
+ * ```
+ * globToRegExp('*.jpg').test('foo/bar.jpg'); // true
+ * globToRegExp('foo/**\/*.{jpg,png}').test('foo/bar/baz.png'); // true
+ * ```
+ */
+export function globToRegExp(glob: string, {caseSensitive = process.platform !== 'win32'} = {}) {
+	glob = convertPathToPOSIX(glob.trim()).replace(/^\.?\//, '');
+	const matchBasename = !glob.includes('/');
+	let source = '';
+	let braceDepth = 0;
+
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]!;
+		switch (char) {
+			case '*':
+				if (glob[i + 1] === '*') {
+					i++;
+					// `**/` matches zero or more directories
+					if (glob[i + 1] === '/') {
+						i++;
+						source += '(?:.*/)?';
+					} else {
+						source += '.*';
+					}
+				} else {
+					source += '[^/]*';
+				}
+				break;
+			case '?':
+				source += '[^/]';
+				break;
+			case '[': {
+				const end = glob.indexOf(']', i + 1);
+				if (end === -1) {
+					source += '\\[';
+				} else {
+					source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+					i = end;
+				}
+				break;
+			}
+			case '{':
+				braceDepth++;
+				source += '(?:';
+				break;
+			case '}':
+				if (braceDepth > 0) {
+					braceDepth--;
+					source += ')';
+				} else {
+					source += '\\}';
+				}
+				break;
+			case ',':
+				source += braceDepth > 0 ? '|' : ',';
+				break;
+			default:
+				source += char.replace(/[.+^$()|\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp(`${matchBasename ? '(?:^|/)' : '^'}${source}$`, caseSensitive ? '' : 'i');
+}
+
 /**
  * Removes previously loaded node modules from cache, so that next `require()`
  * call reloads it.
@@ -385,6 +455,23 @@ export function formatSize(bytes: number): string {
 	return `${bytes < 10 ? bytes.toFixed(1) : Math.round(bytes)}${sizeUnits[i]}`;
 }
 
+/**
+ * Formats size change between two sizes, such as `-1.2MB (-33%)`.
+ */
+export function formatSizeDelta(from: number, to: number): string {
+	const delta = to - from;
+	const size = `${delta > 0 ? '+' : delta < 0 ? '-' : ''}${formatSize(Math.abs(delta))}`;
+	return from > 0 ? `${size} (${formatPercentDelta(from, to)})` : size;
+}
+
+/**
+ * Formats relative change between two numbers, such as `-33%`.
+ */
+export function formatPercentDelta(from: number, to: number): string {
+	const delta = to - from;
+	return `${delta > 0 ? '+' : delta < 0 ? '-' : ''}${formatPercent(Math.abs(delta) / from)}`;
+}
+
 /**
  * Converts milliseconds into human readable duration string.
  */
@@ -823,7 +910,6 @@ export function exec(command: string, {onStdout, onStderr, maxBufferSize, ...exe
 			onStderr,
 			maxBufferSize,
 		});
-		process = CP.exec(command, execOptions);
 	}) as Subprocess;
 
 	promise.process = process!;
@@ -1254,3 +1340,14 @@ export function getOptionsDifference<T extends unknown>(options: T, defaults: un
 
 	return newPropsCount > 0 ? (result as Partial<T>) : undefined;
 }
+
+/**
+ * Short hash identifying a set of options, so that operations ran with the
+ * same options can be grouped together.
+ */
+export function hashOptions(options: unknown) {
+	return createHash('sha1')
+		.update(JSON.stringify(options ?? null))
+		.digest('hex')
+		.slice(0, 16);
+}
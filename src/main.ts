@@ -1,9 +1,22 @@
-import {app, BrowserWindow, shell, screen, Menu, MenuItem, Tray, nativeImage, ipcMain, dialog} from 'electron';
+import {
+	app,
+	BrowserWindow,
+	shell,
+	screen,
+	Menu,
+	MenuItem,
+	Tray,
+	Notification,
+	nativeImage,
+	ipcMain,
+	dialog,
+} from 'electron';
 import * as Path from 'path';
 import * as CP from 'child_process';
 import * as FS from 'fs';
 import {createStatefulWindow} from 'lib/windowStateKeeper';
 import {makePromise} from 'lib/utils';
+import {parseRunArgs, HeadlessRunArgs} from 'lib/headless';
 import manifest from 'manifest';
 import {defaults} from 'config/defaults';
 import type {SerializedSettings} from 'models/settings';
@@ -39,6 +52,8 @@ function eem(error: any, preferStack = false) {
 
 /**
  * Parse and process command line parameters.
+ * Headless `run` command is handled separately below, as it changes the whole
+ * startup procedure.
  */
 function processArgs(args: string[]) {
 	// Handle protocol links
@@ -65,12 +80,36 @@ if (FORCED_USER_DATA_PATH) {
 	} catch {}
 }
 
+/**
+ * Headless `run` command. When requested, the app doesn't create the main
+ * window, and only runs the store in a hidden renderer process.
+ */
+let headlessRunArgs: HeadlessRunArgs | null = null;
+let isInvalidRun = false;
+try {
+	headlessRunArgs = parseRunArgs(process.argv.slice(process.defaultApp ? 2 : 1), process.cwd());
+} catch (error) {
+	process.stderr.write(`${eem(error)}\n`);
+	isInvalidRun = true;
+	app.exit(2);
+}
+
 /**
  * App/window setup.
  */
 
-// Enforce single instance
-if (!app.requestSingleInstanceLock()) {
+if (isInvalidRun) {
+	// App is exiting, `app.exit()` doesn't stop the rest of this module
+} else if (headlessRunArgs) {
+	// Headless runs don't enforce single instance, so they can be used while
+	// the main app is open.
+	app.dock?.hide();
+	app.whenReady().then(async () => {
+		await settingsLoading;
+		createHeadlessWindow();
+	});
+} else if (!app.requestSingleInstanceLock()) {
+	// Enforce single instance
 	app.exit(0);
 } else {
 	// Initial arguments handling
@@ -257,6 +296,27 @@ async function createMainWindow() {
 	return windowShownPromise;
 }
 
+/**
+ * Hidden window that runs the store for the headless `run` command.
+ * Store models depend on DOM, so they can't run in the main process.
+ */
+function createHeadlessWindow() {
+	const headlessWindow = new BrowserWindow({
+		show: false,
+		webPreferences: {
+			contextIsolation: false,
+			nodeIntegration: true,
+		},
+	});
+
+	headlessWindow.webContents.on('render-process-gone', (event, details) => {
+		process.stderr.write(`Headless renderer process gone: ${details.reason}\n`);
+		app.exit(1);
+	});
+
+	headlessWindow.loadFile(`windows/headless/index.html`);
+}
+
 function createTrayIcon() {
 	trayIcon = new Tray(icon);
 	trayIcon.setToolTip(manifest.productName);
@@ -334,7 +394,8 @@ ipcMain.on('set-progress', (event, progress, mode) => mainWindow?.setProgressBar
 ipcMain.handle('get-window-position', (event) => getIpcEventBrowserWindow(event).getPosition());
 ipcMain.on('move-window-to', (event, x, y) => getIpcEventBrowserWindow(event).setPosition(x, y));
 
-// Initiates dragging of a file at specified path
+// Initiates dragging of a file at specified path, or multiple files when
+// passed an array of paths
 ipcMain.on('start-drag', async ({sender}, path) => {
 	const paths: string[] = (Array.isArray(path) ? path : [path]).filter((path) => !!path);
 	if (paths.length === 0) return;
@@ -346,7 +407,44 @@ ipcMain.on('start-drag', async ({sender}, path) => {
 		}
 	} catch {}
 
-	sender.startDrag({file: path, icon: icon});
+	sender.startDrag({file: paths[0]!, files: paths, icon: icon});
+});
+
+// Native notifications. Clicking one reveals the window that sent it, and
+// reports back the id, so the renderer can navigate to what it's about.
+// References are kept until close, as garbage collected notifications lose
+// their event handlers.
+const notifications = new Set<Notification>();
+ipcMain.on('show-notification', (event, id: string, {title, body}: {title: string; body: string}) => {
+	if (!Notification.isSupported()) return;
+
+	const {sender} = event;
+	const srcWindow = getIpcEventBrowserWindow(event);
+	const notification = new Notification({title, body, icon});
+
+	notification.on('click', () => {
+		if (srcWindow.isDestroyed()) return;
+		srcWindow.show();
+		srcWindow.focus();
+		sender.send('notification-click', id);
+	});
+	notification.on('close', () => {
+		notifications.delete(notification);
+		if (!sender.isDestroyed()) sender.send('notification-close', id);
+	});
+
+	notifications.add(notification);
+	notification.show();
+});
+
+// Headless run command
+ipcMain.handle('get-headless-args', () => headlessRunArgs);
+ipcMain.on('headless-write', (event, stream: 'stdout' | 'stderr', data: string) => {
+	(stream === 'stderr' ? process.stderr : process.stdout).write(data);
+});
+ipcMain.handle('headless-exit', (event, code: number) => {
+	// Wait for stdout to flush before exiting
+	process.stdout.write('', () => app.exit(code));
 });
 
 // File dialogs
@@ -419,19 +517,6 @@ ipcMain.on('set-setting', (event, prop, value) => {
 	}
 });
 
-ipcMain.on('start-drag', async ({sender}, path) => {
-	const paths: string[] = (Array.isArray(path) ? path : [path]).filter((path) => !!path);
-	if (paths.length === 0) return;
-	let icon = Path.join(APP_PATH, 'assets', 'file.png');
-
-	try {
-		if ((await FSP.stat(paths[0]!)).isDirectory()) {
-			icon = Path.join(APP_PATH, 'assets', 'folder.png');
-		}
-	} catch {}
-
-	sender.startDrag({file: path, icon: icon});
-});
 ipcMain.on('open-devtools', ({sender}) => sender.openDevTools());
 ipcMain.on('close-devtools', ({sender}) => sender.closeDevTools());
 ipcMain.on('toggle-devtools', ({sender}) => sender.toggleDevTools());
@@ -0,0 +1,383 @@
+import http from 'http';
+import {randomBytes, timingSafeEqual} from 'crypto';
+import {action, reaction, Disposer} from 'statin';
+import {eem, uid, isType, Type} from 'lib/utils';
+import * as serialize from 'lib/serialize';
+import type {Store} from 'models/store';
+import type {Profile} from 'models/profiles';
+import type {Operation} from 'models/operations';
+import type {Item as ItemModel} from 'models/items';
+import type {Item} from '@drovp/types';
+
+const HOST = '127.0.0.1';
+const MAX_BODY_SIZE = 100 * 1024 * 1024;
+
+class ApiError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.status = status;
+	}
+}
+
+type Route = (request: http.IncomingMessage, response: http.ServerResponse, params: string[]) => Promise<unknown>;
+
+/**
+ * Local HTTP/JSON API for driving profiles from other tools.
+ *
+ * Listens only on the loopback interface, and requires a token passed in the
+ * `Authorization: Bearer {token}` header on all requests.
+ *
+ * ```
+ * GET  /profiles                   list profiles
+ * GET  /profiles/{id}              profile details
+ * GET  /profiles/{id}/outputs      profile's outputs history
+ * POST /profiles/{id}/drop         drop items, responds with created operations
+ * GET  /operations/{id}            operation status, `?logs` to include logs
+ * GET  /operations/{id}/outputs    operation outputs
+ * GET  /operations/{id}/events     server-sent events stream of operation status
+ * ```
+ */
+export class Api {
+	store: Store;
+	server: http.Server | null = null;
+	protected settingsReactionDisposer: Disposer | null = null;
+	protected routes: [string, RegExp, Route][] = [
+		['GET', /^\/profiles$/, async () => this.store.profiles.all().map(serializeProfile)],
+		['GET', /^\/profiles\/([^/]+)$/, async (req, res, [id]) => serializeProfile(this.getProfile(id!))],
+		[
+			'GET',
+			/^\/profiles\/([^/]+)\/outputs$/,
+			async (req, res, [id]) => this.getProfile(id!).outputs.data().all.map(serializeOutput),
+		],
+		['POST', /^\/profiles\/([^/]+)\/drop$/, (req, res, [id]) => this.drop(this.getProfile(id!), req)],
+		[
+			'GET',
+			/^\/operations\/([^/]+)$/,
+			async (req, res, [id]) => {
+				const url = new URL(req.url || '', `http://${HOST}`);
+				return serializeOperation(this.getOperation(id!), url.searchParams.has('logs'));
+			},
+		],
+		[
+			'GET',
+			/^\/operations\/([^/]+)\/outputs$/,
+			async (req, res, [id]) => this.getOperation(id!).outputs().map(serializeOutput),
+		],
+		['GET', /^\/operations\/([^/]+)\/events$/, async (req, res, [id]) => this.stream(this.getOperation(id!), res)],
+	];
+
+	constructor(store: Store) {
+		this.store = store;
+	}
+
+	/**
+	 * Starts or stops the server according to current settings.
+	 */
+	startWatching = () => {
+		if (this.settingsReactionDisposer) return;
+
+		const {settings} = this.store;
+		this.settingsReactionDisposer = reaction(() => {
+			const enabled = settings.apiEnabled();
+			const port = settings.apiPort();
+			this.stop();
+			if (enabled) {
+				if (!settings.apiToken.value) action(() => settings.apiToken(randomBytes(24).toString('hex')));
+				this.start(port);
+			}
+		});
+	};
+
+	stopWatching = () => {
+		this.settingsReactionDisposer?.();
+		this.settingsReactionDisposer = null;
+		this.stop();
+	};
+
+	protected start = (port: number) => {
+		const server = http.createServer(this.handleRequest);
+		server.on('error', (error) => {
+			this.stop();
+			this.store.events
+				.create({
+					variant: 'danger',
+					title: `HTTP API error`,
+					message: `Server on port ${port} errored.`,
+					details: eem(error),
+				})
+				.open();
+		});
+		server.listen(port, HOST);
+		this.server = server;
+	};
+
+	protected stop = () => {
+		this.server?.close();
+		this.server?.closeAllConnections?.();
+		this.server = null;
+	};
+
+	protected handleRequest = async (request: http.IncomingMessage, response: http.ServerResponse) => {
+		try {
+			this.authorize(request);
+
+			const pathname = new URL(request.url || '', `http://${HOST}`).pathname.replace(/\/+$/, '');
+			let methodNotAllowed = false;
+
+			for (const [method, pattern, route] of this.routes) {
+				const match = pattern.exec(pathname);
+				if (!match) continue;
+				if (request.method !== method) {
+					methodNotAllowed = true;
+					continue;
+				}
+				const result = await route(request, response, match.slice(1).map(decodeURIComponent));
+				if (!response.headersSent) sendJson(response, 200, result);
+				return;
+			}
+
+			throw methodNotAllowed ? new ApiError(405, `Method not allowed.`) : new ApiError(404, `Not found.`);
+		} catch (error) {
+			const status = error instanceof ApiError ? error.status : 500;
+			if (response.headersSent) {
+				response.end();
+			} else {
+				// Don't keep connections with unread bodies alive
+				if (!request.complete) response.setHeader('Connection', 'close');
+				sendJson(response, status, {error: eem(error)});
+			}
+		}
+	};
+
+	/**
+	 * Checks token, and rejects requests whose host doesn't point to the
+	 * loopback, which protects against DNS rebinding.
+	 */
+	protected authorize = (request: http.IncomingMessage) => {
+		const host = (request.headers.host || '').replace(/:\d+$/, '');
+		if (host !== HOST && host !== 'localhost') throw new ApiError(403, `Invalid host.`);
+
+		const token = Buffer.from(this.store.settings.apiToken.value);
+		const passed = Buffer.from((request.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+		if (token.length === 0 || passed.length !== token.length || !timingSafeEqual(passed, token)) {
+			throw new ApiError(401, `Invalid token.`);
+		}
+	};
+
+	protected getProfile = (id: string) => {
+		const profile = this.store.profiles.byId().get(id);
+		if (!profile) throw new ApiError(404, `Profile "${id}" not found.`);
+		return profile;
+	};
+
+	protected getOperation = (id: string) => {
+		const operation = this.store.operations.byId().get(id);
+		if (!operation) throw new ApiError(404, `Operation "${id}" not found.`);
+		return operation;
+	};
+
+	/**
+	 * Drops items from request body into the profile. Body format:
+	 *
+	 * ```
+	 * {"items": [
+	 *   {"kind": "file", "path": "/path/to/file"},
+	 *   {"kind": "string", "contents": "foo", "type": "text/plain"},
+	 *   {"kind": "url", "url": "https://example.com"},
+	 *   {"kind": "blob", "contents": "{base64}", "mime": "image/png"}
+	 * ]}
+	 * ```
+	 */
+	protected drop = async (profile: Profile, request: http.IncomingMessage) => {
+		if (!profile.isReady()) throw new ApiError(409, `Profile "${profile.displayTitle()}" is not ready.`);
+
+		const body = await readJsonBody(request);
+		if (!isType<{items: unknown[]}>(body, Type.Object) || !Array.isArray(body.items)) {
+			throw new ApiError(400, `Body has to be an object with an "items" array.`);
+		}
+
+		const items: Item[] = [];
+		for (const [index, data] of body.items.entries()) items.push(await deserializeItem(data, index));
+
+		if (items.length === 0) throw new ApiError(400, `No items passed.`);
+
+		await profile.dropItems(items, {action: 'api', modifiers: ''});
+
+		// Items are passed into operations as is, so we can use their IDs to
+		// find the operations they ended up in.
+		const ids = new Set(items.map((item) => item.id));
+		const operations = this.store.operations
+			.all()
+			.filter(
+				(operation) => operation.profile === profile && operation.inputs.some((input) => ids.has(input.id))
+			);
+
+		return {operations: operations.map((operation) => serializeOperation(operation))};
+	};
+
+	/**
+	 * Streams operation status as server-sent events until it's done.
+	 * Events: `status`, `log`, `output`, and `end`.
+	 */
+	protected stream = async (operation: Operation, response: http.ServerResponse) => {
+		const disposers: Disposer[] = [];
+		let lastLogs = '';
+		let outputsCount = 0;
+		const send = (event: string, data: unknown) =>
+			response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+		let ended = false;
+		const end = () => {
+			if (ended) return;
+			ended = true;
+			for (const dispose of disposers) dispose();
+			response.end();
+		};
+
+		response.writeHead(200, {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+		});
+		response.on('close', end);
+
+		disposers.push(
+			reaction(() => {
+				const status = serializeOperation(operation);
+				send('status', status);
+				if (status.state === 'done') setTimeout(() => (send('end', status), end()));
+			}),
+			reaction(() => {
+				const logs = operation.logs();
+				// Logs are trimmed to operationLogLimit, in which case we can't diff them
+				const newLogs = logs.startsWith(lastLogs) ? logs.slice(lastLogs.length) : logs;
+				lastLogs = logs;
+				for (const line of newLogs.split('\n')) if (line) send('log', line);
+			}),
+			reaction(() => {
+				const outputs = operation.outputs();
+				for (const output of outputs.slice(outputsCount)) send('output', serializeOutput(output));
+				outputsCount = outputs.length;
+			})
+		);
+	};
+}
+
+function sendJson(response: http.ServerResponse, status: number, data: unknown) {
+	response.writeHead(status, {'Content-Type': 'application/json; charset=utf-8'});
+	response.end(JSON.stringify(data ?? null));
+}
+
+function readJsonBody(request: http.IncomingMessage) {
+	return new Promise<unknown>((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		request.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_SIZE) {
+				// Rest of the body is drained, so that client receives the error
+				// response instead of a connection reset
+				chunks.length = 0;
+				request.removeAllListeners('data');
+				request.resume();
+				reject(new ApiError(413, `Body too large.`));
+				return;
+			}
+			chunks.push(chunk);
+		});
+		request.on('end', () => {
+			try {
+				resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+			} catch (error) {
+				reject(new ApiError(400, `Invalid JSON body: ${eem(error)}`));
+			}
+		});
+		request.on('error', reject);
+	});
+}
+
+async function deserializeItem(data: any, index: number): Promise<Item> {
+	const invalid = (message: string) => new ApiError(400, `Item ${index}: ${message}`);
+
+	if (!isType<Record<string, unknown>>(data, Type.Object)) throw invalid(`has to be an object.`);
+
+	switch (data.kind) {
+		case 'file':
+			if (typeof data.path !== 'string') throw invalid(`"path" has to be a string.`);
+			try {
+				return await serialize.file(data.path);
+			} catch (error) {
+				throw invalid(eem(error));
+			}
+		case 'string':
+			if (typeof data.contents !== 'string') throw invalid(`"contents" has to be a string.`);
+			return {
+				id: uid(),
+				created: Date.now(),
+				kind: 'string',
+				type: typeof data.type === 'string' ? data.type : 'text/plain',
+				contents: data.contents,
+			};
+		case 'url':
+			if (typeof data.url !== 'string') throw invalid(`"url" has to be a string.`);
+			return {id: uid(), created: Date.now(), kind: 'url', url: data.url};
+		case 'blob':
+			if (typeof data.contents !== 'string') throw invalid(`"contents" has to be a base64 string.`);
+			if (typeof data.mime !== 'string') throw invalid(`"mime" has to be a string.`);
+			return {
+				id: uid(),
+				created: Date.now(),
+				kind: 'blob',
+				mime: data.mime,
+				contents: Buffer.from(data.contents, 'base64'),
+			};
+		default:
+			throw invalid(`unsupported kind "${data.kind}", supported are: file, string, url, blob.`);
+	}
+}
+
+function serializeProfile(profile: Profile) {
+	return {
+		id: profile.id,
+		title: profile.displayTitle(),
+		processorId: profile.processorId,
+		isReady: profile.isReady(),
+		queued: profile.batch.items().length - profile.batch.index() - profile.pending().length,
+		pending: profile.pending().length,
+		options: profile.optionsData(),
+	};
+}
+
+function serializeOperation(operation: Operation, includeLogs = false) {
+	// Not using `operation.duration()`, as it updates every 300ms
+	const started = operation.started();
+	const ended = operation.ended();
+	return {
+		id: operation.id,
+		profileId: operation.profile.id,
+		state: operation.state(),
+		title: operation.title(),
+		runs: operation.runs(),
+		retries: operation.retries(),
+		stage: operation.stage(),
+		progress: operation.progress() ?? null,
+		humanProgress: operation.humanProgress() ?? null,
+		hasError: operation.hasError(),
+		created: operation.created(),
+		started: operation.started(),
+		ended: operation.ended(),
+		duration: started != null ? (ended ?? Date.now()) - started : null,
+		inputs: operation.inputs.map(serializeOutput),
+		outputs: operation.outputs().map(serializeOutput),
+		logs: includeLogs ? operation.logs() : undefined,
+	};
+}
+
+function serializeOutput({operation, ...item}: ItemModel) {
+	return item.kind === 'blob'
+		? {...item, contents: item.contents.toString('base64'), operation: operation.id}
+		: {...item, operation: operation.id};
+}
+
+export default Api;
@@ -90,6 +90,7 @@ export class App {
 	readonly binPath: string;
 	readonly rootPath: string;
 	readonly updateDataPath: string;
+	readonly thumbnailsPath: string;
 	readonly isWindowsPortable: boolean;
 	width = signal(0);
 	height = signal(0);
@@ -127,6 +128,7 @@ export class App {
 		this.isWindowsPortable = isWindowsPortable;
 		this.binPath = Path.join(process.resourcesPath, 'bin');
 		this.updateDataPath = Path.join(userDataPath, 'update');
+		this.thumbnailsPath = Path.join(userDataPath, 'thumbnails');
 
 		// Lets attempt to get an app root folder path in a stable manner, as
 		// electron apparently doesn't have an API for this ffs...
@@ -317,7 +317,17 @@ export function registerContextMenus(store: Store) {
 		if (state === 'pending') {
 			items.push({label: 'Stop', click: () => operation.stop()});
 		} else {
-			if (state === 'queued') items.push({label: 'Force start', click: () => operation.start()});
+			if (state === 'queued' || state === 'held') {
+				items.push(
+					{label: 'Force start', click: () => operation.start()},
+					state === 'held'
+						? {label: 'Release hold', click: () => operation.release()}
+						: {label: 'Hold', click: () => operation.hold()},
+					{label: 'Move to front of queue', click: () => operation.moveToFront()},
+					{label: 'Move to back of queue', click: () => operation.moveToBack()},
+					{type: 'separator'}
+				);
+			}
 			if (state === 'done') {
 				items.push({label: 'Restart', click: () => operation.restart()});
 
@@ -0,0 +1,174 @@
+import {eem, exec, formatDuration} from 'lib/utils';
+import type {Store} from 'models/store';
+import type {Profile} from 'models/profiles';
+import type {Operation} from 'models/operations';
+
+export type HookEvent = 'batchDone' | 'operationError';
+
+export interface HookPayload {
+	event: HookEvent;
+	time: string;
+	profileId: string;
+	profileTitle: string;
+	completed: number;
+	errors: number;
+	duration: number | null;
+	operationId: string | null;
+	error: string | null;
+	outputs: string[];
+}
+
+const HOOK_TITLES: Record<HookEvent, string> = {
+	batchDone: 'Batch done',
+	operationError: 'Operation error',
+};
+
+/**
+ * Runs profile's hooks, configured in its common options. Each hook event
+ * can run a command template, and all of them are posted to the webhook URL.
+ * Results of both are reported as events.
+ */
+export class ProfileHooks {
+	store: Store;
+	profile: Profile;
+
+	constructor(profile: Profile, store: Store) {
+		this.profile = profile;
+		this.store = store;
+	}
+
+	batchDone = () => {
+		if (!this.profile.commonOptions.hooks()) return;
+
+		const {batch} = this.profile;
+		const started = batch.started();
+		const operations = this.store.operations
+			.all()
+			.filter((operation) => operation.profile === this.profile && (operation.ended() ?? 0) >= (started ?? 0));
+
+		this.run({
+			...this.createPayload('batchDone'),
+			completed: batch.completed(),
+			errors: batch.errors(),
+			duration: started != null ? Date.now() - started : null,
+			outputs: operations.flatMap(getOutputPaths),
+		});
+	};
+
+	operationError = (operation: Operation) => {
+		if (!this.profile.commonOptions.hooks()) return;
+
+		const errorOutput = operation.outputs().find((item) => item.kind === 'error');
+
+		this.run({
+			...this.createPayload('operationError'),
+			errors: 1,
+			duration: operation.duration(),
+			operationId: operation.id,
+			error: errorOutput?.kind === 'error' ? errorOutput.message : null,
+			outputs: getOutputPaths(operation),
+		});
+	};
+
+	protected createPayload = (event: HookEvent): HookPayload => ({
+		event,
+		time: new Date().toISOString(),
+		profileId: this.profile.id,
+		profileTitle: this.profile.displayTitle(),
+		completed: 0,
+		errors: 0,
+		duration: null,
+		operationId: null,
+		error: null,
+		outputs: [],
+	});
+
+	protected run = (payload: HookPayload) => {
+		const {commonOptions} = this.profile;
+		const command = (
+			payload.event === 'batchDone' ? commonOptions.hookBatchDone() : commonOptions.hookOperationError()
+		).trim();
+		const url = commonOptions.hookUrl().trim();
+		const timeout = commonOptions.hookTimeout() * 1000;
+
+		if (command) this.runCommand(renderHookCommand(command, payload), payload, timeout);
+		if (url) this.post(url, payload, timeout);
+	};
+
+	protected runCommand = async (command: string, payload: HookPayload, timeout: number) => {
+		const subprocess = exec(command, {env: {...process.env, DROVP_HOOK_PAYLOAD: JSON.stringify(payload)}});
+		const timeoutId = timeout > 0 ? setTimeout(() => subprocess.process.kill(), timeout) : null;
+
+		try {
+			const {stdout, stderr} = await subprocess;
+			const output = `${stdout?.toString() || ''}${stderr?.toString() || ''}`.trim();
+			this.report(payload, `Command finished: ${command}`, output);
+		} catch (error) {
+			this.report(payload, `Command failed: ${command}`, eem(error), true);
+		} finally {
+			if (timeoutId) clearTimeout(timeoutId);
+		}
+	};
+
+	protected post = async (url: string, payload: HookPayload, timeout: number) => {
+		const controller = new AbortController();
+		const timeoutId = timeout > 0 ? setTimeout(() => controller.abort(), timeout) : null;
+
+		try {
+			const response = await fetch(url, {
+				method: 'POST',
+				headers: {'Content-Type': 'application/json'},
+				body: JSON.stringify(payload),
+				signal: controller.signal,
+			});
+			const body = (await response.text()).trim();
+			const message = `POST ${url}: ${response.status} ${response.statusText}`;
+			this.report(payload, message, body, !response.ok);
+		} catch (error) {
+			this.report(payload, `POST ${url} failed`, eem(error), true);
+		} finally {
+			if (timeoutId) clearTimeout(timeoutId);
+		}
+	};
+
+	protected report = (payload: HookPayload, message: string, details: string, isError = false) => {
+		this.store.events.create({
+			variant: isError ? 'danger' : 'success',
+			title: `${HOOK_TITLES[payload.event]} hook of "${this.profile.displayTitle()}"`,
+			message,
+			details: details || undefined,
+		});
+	};
+}
+
+/**
+ * Replaces `{token}` placeholders with values from payload. All values are
+ * shell quoted, `{outputs}` expands into a space separated list of paths.
+ */
+export function renderHookCommand(template: string, payload: HookPayload) {
+	const tokens: Record<string, string> = {
+		event: quoteShellArgument(payload.event),
+		profileId: quoteShellArgument(payload.profileId),
+		profileTitle: quoteShellArgument(payload.profileTitle),
+		completed: `${payload.completed}`,
+		errors: `${payload.errors}`,
+		duration: quoteShellArgument(payload.duration != null ? formatDuration(payload.duration) : ''),
+		operationId: quoteShellArgument(payload.operationId || ''),
+		error: quoteShellArgument(payload.error || ''),
+		outputs: payload.outputs.map(quoteShellArgument).join(' '),
+	};
+
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => tokens[name] ?? match);
+}
+
+function quoteShellArgument(value: string) {
+	return process.platform === 'win32' ? `"${value.replace(/"/g, '""')}"` : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function getOutputPaths(operation: Operation) {
+	const paths: string[] = [];
+	for (const item of operation.outputs()) {
+		if (item.kind === 'file' || item.kind === 'directory') paths.push(item.path);
+	}
+	return paths;
+}
@@ -1,5 +1,6 @@
+import Path from 'path';
 import {signal, computed, createAction} from 'statin';
-import {throttle, isType, Type} from 'lib/utils';
+import {throttle, isType, Type, uid} from 'lib/utils';
 import type {Store} from 'models/store';
 import type {Operation} from 'models/operations';
 import type {Profile} from 'models/profiles';
@@ -7,6 +8,8 @@ import type * as Types from '@drovp/types';
 
 export interface InternalItemBase {
 	operation: Operation;
+	// IDs of operation's input items that the output was produced from
+	inputIds?: string[];
 }
 
 export type ItemFile = InternalItemBase & Types.ItemFile;
@@ -26,6 +29,8 @@ export type SerializedInputItem =
 	| Types.ItemString
 	| Types.ItemUrl;
 
+export type SerializedItem = SerializedInputItem | Types.ItemError | Types.ItemWarning;
+
 export interface OutputsData {
 	all: Item[];
 	files: Item[];
@@ -39,8 +44,34 @@ export interface OutputsInterface {
 	clearHistory: () => void;
 }
 
+export interface OutputsFilter {
+	search?: string;
+	profileId?: string;
+	from?: number; // timestamp
+	to?: number; // timestamp
+	minSize?: number; // bytes
+	maxSize?: number; // bytes
+}
+
+export interface OutputExportRow {
+	kind: string;
+	value: string;
+	size: number | null;
+	profile: string;
+	profileId: string;
+	operation: string;
+	created: string;
+	inputs: string[];
+}
+
 const INPUT_KINDS = ['file', 'directory', 'blob', 'string', 'url'];
 
+/**
+ * Data transfer type of output items dragged within the app. Data is a JSON
+ * array of their IDs.
+ */
+export const OUTPUTS_DRAG_TYPE = 'drovp/outputs';
+
 export function inputItemValidator(item: unknown): item is Types.Item {
 	if (!isType<{[key: string]: unknown}>(item, Type.Object)) throw new Error(`Not an object.`);
 
@@ -70,6 +101,162 @@ export function inputItemValidator(item: unknown): item is Types.Item {
 	return true;
 }
 
+/**
+ * Text that output items are searched by.
+ */
+export function getItemValue(item: Types.Item | Types.ItemError | Types.ItemWarning): string {
+	switch (item.kind) {
+		case 'file':
+		case 'directory':
+			return item.path;
+		case 'url':
+			return item.url;
+		case 'string':
+			return item.contents;
+		case 'blob':
+			return item.mime;
+		case 'error':
+		case 'warning':
+			return item.message;
+	}
+}
+
+/**
+ * Creates a new input item out of an output, so it can be dropped into a
+ * profile. Errors and warnings can't be inputs, so they return `null`.
+ */
+export function outputToInputItem(item: Item): Types.Item | null {
+	const base = {id: uid(), created: Date.now()};
+	switch (item.kind) {
+		case 'file':
+			return {...base, kind: 'file', type: item.type, path: item.path, exists: item.exists, size: item.size};
+		case 'directory':
+			return {...base, kind: 'directory', path: item.path, exists: item.exists};
+		case 'blob':
+			return {...base, kind: 'blob', mime: item.mime, contents: item.contents};
+		case 'string':
+			return {...base, kind: 'string', type: item.type, contents: item.contents};
+		case 'url':
+			return {...base, kind: 'url', url: item.url};
+		default:
+			return null;
+	}
+}
+
+/**
+ * Returns operation input items that the output item was produced from.
+ */
+export function getSourceInputs(item: Item): Item[] {
+	const {inputIds} = item;
+	return inputIds ? item.operation.inputs.filter((input) => inputIds.includes(input.id)) : [];
+}
+
+/**
+ * Returns sizes of output file and input files it was produced from, or
+ * `null` when some of them are not files.
+ */
+export function getItemSizes(item: Item): {inputSize: number; outputSize: number} | null {
+	if (item.kind !== 'file' || !item.exists) return null;
+	const sources = getSourceInputs(item);
+	if (sources.length === 0) return null;
+	let inputSize = 0;
+	for (const input of sources) {
+		if (input.kind !== 'file') return null;
+		inputSize += input.size;
+	}
+	return {inputSize, outputSize: item.size};
+}
+
+export function isOutputsFilterActive(filter: OutputsFilter) {
+	return Object.values(filter).some((value) => value != null && value !== '');
+}
+
+/**
+ * Filters items by all filter conditions. Size conditions exclude items
+ * without size. Search terms separated by space all have to match.
+ */
+export function filterOutputs<T extends Item>(items: T[], filter: OutputsFilter): T[] {
+	if (!isOutputsFilterActive(filter)) return items;
+
+	const {profileId, from, to, minSize, maxSize} = filter;
+	const terms = (filter.search || '').toLowerCase().split(/\s+/).filter(Boolean);
+	const filterSize = minSize != null || maxSize != null;
+
+	return items.filter((item) => {
+		if (profileId && item.operation.profile.id !== profileId) return false;
+		if (from != null && item.created < from) return false;
+		if (to != null && item.created > to) return false;
+		if (filterSize) {
+			const size = item.kind === 'file' ? item.size : null;
+			if (size == null || (minSize != null && size < minSize) || (maxSize != null && size > maxSize)) {
+				return false;
+			}
+		}
+		if (terms.length > 0) {
+			const value = getItemValue(item).toLowerCase();
+			if (!terms.every((term) => value.includes(term))) return false;
+		}
+		return true;
+	});
+}
+
+export function serializeOutputsForExport(items: Item[]): OutputExportRow[] {
+	return items.map((item) => ({
+		kind: item.kind,
+		value: getItemValue(item),
+		size: item.kind === 'file' ? item.size : null,
+		profile: item.operation.profile.displayTitle(),
+		profileId: item.operation.profile.id,
+		operation: item.operation.id,
+		created: new Date(item.created).toISOString(),
+		inputs: (item.inputIds ? getSourceInputs(item) : item.operation.inputs).map(getItemValue),
+	}));
+}
+
+export function exportOutputsToCSV(items: Item[]) {
+	const rows = serializeOutputsForExport(items);
+	const header = ['kind', 'value', 'size', 'profile', 'profileId', 'operation', 'created', 'inputs'];
+	const lines = [header.join(',')];
+
+	for (const row of rows) {
+		const values = [...header.slice(0, -1).map((key) => row[key as keyof OutputExportRow]), row.inputs.join('\n')];
+		lines.push(values.map((value) => escapeCSVValue(value == null ? '' : `${value}`)).join(','));
+	}
+
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+export function exportOutputsToJSON(items: Item[]) {
+	return JSON.stringify(serializeOutputsForExport(items), null, 2);
+}
+
+/**
+ * Creates a new file name for a bulk rename. Supported tokens:
+ * `{basename}` - file name without extension
+ * `{ext}` - extension including the dot
+ * `{index}` - 1 based position in the renamed set, padded to the set size
+ * `{date}` - `YYYY-MM-DD` date of when the item was created
+ */
+export function renderRenamePattern(pattern: string, item: ItemFile | ItemDirectory, index: number, total: number) {
+	const ext = item.kind === 'file' ? Path.extname(item.path) : '';
+	const created = new Date(item.created);
+	const tokens: Record<string, string> = {
+		basename: Path.basename(item.path, ext),
+		ext,
+		index: `${index + 1}`.padStart(`${total}`.length, '0'),
+		date: [
+			created.getFullYear(),
+			`${created.getMonth() + 1}`.padStart(2, '0'),
+			`${created.getDate()}`.padStart(2, '0'),
+		].join('-'),
+	};
+	return pattern.replace(/\{(\w+)\}/g, (match, name) => tokens[name] ?? match);
+}
+
+function escapeCSVValue(value: string) {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
 export class Outputs implements OutputsInterface {
 	store: Store;
 	all = signal<Item[]>([]);
@@ -114,6 +301,16 @@ export class Outputs implements OutputsInterface {
 		this.requestTrimHistory();
 	});
 
+	/**
+	 * Notifies observers about items that were modified in place, such as
+	 * when their files were moved or renamed.
+	 */
+	itemsChanged = createAction((items: Item[]) => {
+		this.all.changed();
+		for (const type of this.types) this[type].changed();
+		for (const operation of new Set(items.map((item) => item.operation))) operation.outputs.changed();
+	});
+
 	getFilteredItems = (predicate: (item: Item, index: number, all: Item[]) => boolean) => {
 		const items: OutputsData = {all: [], files: [], urls: [], strings: [], errors: []};
 		const all = this.all();
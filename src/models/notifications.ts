@@ -0,0 +1,73 @@
+import {ipcRenderer} from 'electron';
+import {uid, formatDuration} from 'lib/utils';
+import type {Store} from 'models/store';
+import type {Profile} from 'models/profiles';
+import type {Operation} from 'models/operations';
+
+export interface NotificationData {
+	title: string;
+	body: string;
+	action?: () => void; // called when notification is clicked
+}
+
+/**
+ * Native desktop notifications. They are created by the main process, which
+ * reports back clicks, so we keep actions here until notification closes.
+ */
+export class Notifications {
+	store: Store;
+	protected actions = new Map<string, () => void>();
+	protected isListening = false;
+
+	constructor(store: Store) {
+		this.store = store;
+	}
+
+	/**
+	 * Notifications are only shown after this is called, so that headless
+	 * runs don't spam them.
+	 */
+	startListening = () => {
+		if (this.isListening) return;
+		this.isListening = true;
+		ipcRenderer.on('notification-click', (event, id: string) => {
+			this.actions.get(id)?.();
+			this.actions.delete(id);
+		});
+		ipcRenderer.on('notification-close', (event, id: string) => this.actions.delete(id));
+	};
+
+	show = ({title, body, action}: NotificationData) => {
+		if (!this.isListening) return;
+		const id = uid();
+		if (action) this.actions.set(id, action);
+		ipcRenderer.send('show-notification', id, {title, body});
+	};
+
+	/**
+	 * Summarizes finished batch, if profile opted in, and the batch took long
+	 * enough. Clicking opens the profile, or its first errored operation.
+	 */
+	batchDone = (profile: Profile) => {
+		const {batch, commonOptions} = profile;
+		const started = batch.started();
+		if (!commonOptions.notifyBatch() || started == null) return;
+
+		const duration = Date.now() - started;
+		if (duration < commonOptions.notifyBatchMinDuration() * 1000) return;
+
+		const completed = batch.completed();
+		const errors = batch.errors();
+		const isOwnError = (operation: Operation) =>
+			operation.profile === profile && (operation.ended() ?? 0) >= started;
+		const firstError = errors > 0 ? this.store.operations.errors().find(isOwnError) : undefined;
+		const path = firstError ? `/operations/${firstError.id}` : `/profiles/${profile.id}`;
+		const errorsCount = `${errors} ${errors === 1 ? 'error' : 'errors'}`;
+
+		this.show({
+			title: `${profile.displayTitle()}: ${errors > 0 ? 'batch finished with errors' : 'batch finished'}`,
+			body: `${completed} completed, ${errorsCount}, took ${formatDuration(duration)}`,
+			action: () => this.store.history.push(path),
+		});
+	};
+}
@@ -1,21 +1,28 @@
 import {shell} from 'electron';
-import {promises as FSP, Stats} from 'fs';
+import {promises as FSP, Stats, writeFileSync} from 'fs';
 import Path from 'path';
-import {Signal, signal, createAction, action, computed} from 'statin';
+import {Signal, signal, createAction, action, computed, reaction, Disposer} from 'statin';
 import {
 	eem,
 	uid,
+	isType,
+	Type,
 	arrayDeleteValue,
 	formatDuration,
 	formatPercent,
 	formatSize,
 	getExtensionType,
 	throttle,
+	debounce,
 } from 'lib/utils';
+import {readJson, outputFile, deletePath} from 'lib/fs';
+import {FileSpool} from 'lib/spool';
+import {stripAnsi} from 'lib/ansi';
 import {Profile, BatchItem} from 'models/profiles';
 import type {Store} from 'models/store';
 import type {ProgressData, AnyPayload, Item} from '@drovp/types';
-import type {Item as ItemModel} from 'models/items';
+import {getItemSizes} from 'models/items';
+import type {Item as ItemModel, ItemFile, ItemUrl, ItemString, ItemError, SerializedItem} from 'models/items';
 import type {Thread} from 'models/worker';
 
 const bytesFormatter = ({completed}: ProgressData) => (completed ? formatSize(completed) : '');
@@ -55,6 +62,13 @@ export type OperationOutput =
 
 export type OperationTitle = string | null;
 export type OperationLogLine = string;
+/** Processes' stdout & stderr, `utils.log()` calls, and messages from the app itself. */
+export type OperationLogSource = 'stdout' | 'stderr' | 'log' | 'app';
+export interface OperationLogEntry {
+	time: number;
+	source: OperationLogSource;
+	text: string;
+}
 export type OperationStage = string;
 export type OperationMeta = unknown;
 
@@ -63,11 +77,50 @@ export interface OperationPayload {
 	options?: {[key: string]: any};
 }
 
+/**
+ * What caused operation to fail. Decides whether it should be retried.
+ */
+export type OperationFailure = 'error' | 'crash' | 'timeout' | 'stop';
+
 export interface PreparatorMeta {
-	action: 'drop' | 'paste' | 'protocol';
+	action: 'drop' | 'paste' | 'protocol' | 'chain' | 'watch' | 'api';
 	modifiers: string;
 }
 
+export interface StoredPayload {
+	id: string;
+	options?: {[key: string]: any};
+	input?: SerializedItem;
+	inputs?: SerializedItem[];
+	[key: string]: any;
+}
+
+/**
+ * Operation state as journaled to disk between app restarts.
+ */
+export interface StoredOperation {
+	id: string;
+	profileId: string;
+	processorId?: string; // profile's processor and title, used when profile no longer exists
+	profileTitle?: string;
+	state: 'queued' | 'held' | 'pending' | 'done';
+	payload: StoredPayload;
+	inputs: SerializedItem[];
+	outputs: SerializedItem[];
+	title: OperationTitle;
+	runs: number;
+	meta: OperationMeta;
+	logLines?: OperationLogEntry[];
+	logsTrimmed?: number;
+	logs?: string; // journals from before logs were structured
+	logsCount: number;
+	hasError: boolean;
+	belongsToErrors: boolean;
+	created: number;
+	started: number | null;
+	ended: number | null;
+}
+
 /**
  * This should be a state machine T.T, but I'm not gonna add a state machine
  * library dependency and introduce a different state type concept just to make
@@ -80,13 +133,22 @@ export class Operation {
 	inputs: ItemModel[]; // Inputs with operation instance attached
 	thread: Thread | null = null;
 	isBulk: boolean;
-	state = signal<'queued' | 'pending' | 'done'>('queued');
+	state = signal<'queued' | 'held' | 'pending' | 'done'>('queued'); // held operations are skipped by worker
 	runs = signal(0); // how many times was this operation started
+	retries = signal(0); // automatic retries since the last manual (re)start
+	retryAt = signal<number | null>(null); // worker skips operation until this time
+	failure: OperationFailure | null = null; // set by whatever ends the current run prematurely
+	lastActivity = 0; // time of the last progress, log, or stage message, used by inactivity timeout
+	protected batchSizes = {inputSize: 0, outputSize: 0}; // sizes already added to profile's batch totals
+	protected chained = new Set<string>(); // outputs already chained, so retries don't chain them again
 	title = signal<OperationTitle>(null);
 	outputs = signal<ItemModel[]>([]);
 	meta = signal<unknown>(null);
 	logsCount = signal<number>(0);
-	logs = signal<string>('');
+	logLines = signal<OperationLogEntry[]>([]); // trimmed to operationLogLimit setting
+	logsTrimmed = signal<number>(0); // number of lines trimmed from logLines
+	protected logsSize = 0; // characters in logLines
+	logSpool: FileSpool; // untrimmed logs
 	hasError = signal<boolean>(false); // True if there is at least one error in outputs
 	belongsToErrors = signal<boolean>(false); // true if operation errored at least once (1st run or restarts)
 	stage = signal<string | null>(null); // Completed progress
@@ -99,12 +161,20 @@ export class Operation {
 	maxThreadsAtCreation: number;
 	getMaxThreads: () => number;
 
-	constructor(rawPayload: OperationPayload, profile: Profile, store: Store) {
+	/**
+	 * `restoredId` is passed when re-creating a journaled operation, in which
+	 * case the processor is allowed to be missing, as such operations are
+	 * restored as errors.
+	 */
+	constructor(rawPayload: OperationPayload, profile: Profile, store: Store, restoredId?: string) {
 		const processor = profile.processor();
-		if (!processor) throw new Error(`Processor "${profile.processorId}" missing when creating an operation.`);
+		if (!processor && !restoredId) {
+			throw new Error(`Processor "${profile.processorId}" missing when creating an operation.`);
+		}
 
 		this.store = store;
-		this.id = uid(12);
+		this.id = restoredId || uid(12);
+		this.logSpool = new FileSpool(Path.join(store.operations.logSpoolsPath, `${this.id}.jsonl`));
 		this.inputs = rawPayload.inputs ? rawPayload.inputs.map((item) => ({...item, operation: this})) : [];
 		this.created = signal(Date.now());
 		// Causes freezes when many operations access their `.state` at
@@ -119,8 +189,8 @@ export class Operation {
 		this.payload = {...rawPayload, id: this.id} as AnyPayload;
 
 		// Figure out types of loads this operation will use, and max number of threads it allows
-		const threadType = processor.config.threadType;
-		const parallelize = processor.config.parallelize;
+		const threadType = processor?.config.threadType;
+		const parallelize = processor?.config.parallelize;
 		const isParallelized = typeof parallelize === 'function' ? parallelize(this.payload) : parallelize !== false;
 		let isDynamicThreadType = false;
 
@@ -135,7 +205,7 @@ export class Operation {
 				if (normalizedResult.findIndex((threadType) => typeof threadType !== 'string') !== -1) {
 					throw new Error(
 						`Processor "${
-							processor.id
+							profile.processorId
 						}" threadType determiner function returned invalid result.\nOnly a string or an array of strings is allowed, but it returned: "${
 							normalizedResult ? JSON.stringify(normalizedResult) : normalizedResult
 						}"`
@@ -230,6 +300,16 @@ export class Operation {
 		return formatDuration(Date.now() - eta);
 	});
 
+	/**
+	 * Human readable time until the next automatic retry.
+	 */
+	retryIn = computed(() => {
+		const retryAt = this.retryAt();
+		if (retryAt == null || this.state() !== 'queued') return undefined;
+		this.store.app.time1000(); // ensure this updates every second
+		return formatDuration(Math.max(retryAt - Date.now(), 0));
+	});
+
 	/**
 	 * ETA calculation.
 	 */
@@ -276,6 +356,7 @@ export class Operation {
 	});
 
 	handleProgress = createAction((progress: ProgressData) => {
+		this.lastActivity = Date.now();
 		this.progressData(progress);
 		const progressFraction = this.progress();
 		if (progressFraction != null) this.updateEta(progressFraction);
@@ -283,42 +364,88 @@ export class Operation {
 
 	handleTitle = createAction((value: string | undefined | null) => this.title(value || null));
 
-	handleLog = (line: OperationLogLine) => {
-		let currentLogs = this.logs();
-
-		// Add a new line between logs if it doesn't appear naturally
-		if (currentLogs && currentLogs[currentLogs.length - 1] !== '\n') currentLogs += '\n';
+	/**
+	 * Logs are joined into a string for consumers that don't care about
+	 * their structure.
+	 */
+	logs = computed(() =>
+		this.logLines()
+			.map(({text}: OperationLogEntry) => text)
+			.join('\n')
+	);
 
+	handleLog = (text: OperationLogLine, source: OperationLogSource = 'app') => {
+		const time = Date.now();
+		const lines = this.logLines.value;
 		const limit = this.store.settings.operationLogLimit();
-		let newLogs = `${currentLogs}${line.replace(/\n+$/, '')}`;
+		this.lastActivity = time;
+
+		for (const line of text.replace(/\n+$/, '').split(/\r?\n/)) {
+			const entry: OperationLogEntry = {time, source, text: line};
+			lines.push(entry);
+			this.logsSize += line.length + 1;
+			this.logSpool.write(`${JSON.stringify(entry)}\n`);
+		}
 
-		if (newLogs.length > limit) {
-			newLogs = `... logs trimmed to Operation Log Limit setting size ...\n${newLogs.slice(-limit)}`;
+		// Trim the oldest lines, but always keep at least the last one
+		let trimCount = 0;
+		while (this.logsSize > limit && trimCount < lines.length - 1) {
+			this.logsSize -= lines[trimCount++]!.text.length + 1;
+		}
+		if (trimCount > 0) {
+			lines.splice(0, trimCount);
+			this.logsTrimmed.value += trimCount;
 		}
 
 		// This is done because handleLog can be called a LOT of times, so there
 		// is a risk of hitting statin's circular reaction stack limit.
-		this.logs.value = newLogs;
 		this.logsCount.value += 1;
 		this.triggerLogChange();
 	};
 
 	protected triggerLogChange = throttle(
 		createAction(() => {
-			this.logs.changed();
+			this.logLines.changed();
+			this.logsTrimmed.changed();
 			this.logsCount.changed();
 		})
 	);
 
+	protected setLogLines = createAction((lines: OperationLogEntry[], trimmed = 0) => {
+		this.logLines(lines);
+		this.logsTrimmed(trimmed);
+		this.logsSize = lines.reduce((size, {text}) => size + text.length + 1, 0);
+	});
+
+	/**
+	 * Returns all log lines from the spool file, or just the ones in memory
+	 * when spool is not available.
+	 */
+	getFullLog = async (): Promise<OperationLogEntry[]> => {
+		await this.logSpool.flush();
+		try {
+			const contents = await FSP.readFile(this.logSpool.path, 'utf8');
+			return contents
+				.split('\n')
+				.filter(Boolean)
+				.map((line) => JSON.parse(line));
+		} catch {
+			return this.logLines();
+		}
+	};
+
 	handleMeta = (meta: unknown) => this.meta(meta);
 
 	handleOutput = async (operationOutput: OperationOutput) => {
 		let item: ItemModel | undefined;
 
+		const inputIds = this.getSourceInputIds(operationOutput);
+
 		switch (operationOutput.kind) {
 			case 'file': {
 				const path = Path.normalize(operationOutput.path);
 				const extensionType = getExtensionType(path);
+				this.profile.watchers.markProduced(path);
 				let stat: Stats | undefined;
 				try {
 					stat = await FSP.stat(path);
@@ -327,6 +454,7 @@ export class Operation {
 					...operationOutput,
 					id: uid(),
 					operation: this,
+					inputIds,
 					created: Date.now(),
 					kind: 'file',
 					path: path,
@@ -346,6 +474,7 @@ export class Operation {
 					...operationOutput,
 					id: uid(),
 					operation: this,
+					inputIds,
 					created: Date.now(),
 					kind: 'directory',
 					exists: !!stat?.isDirectory(),
@@ -354,22 +483,28 @@ export class Operation {
 				break;
 			}
 			case 'url':
-				item = {...operationOutput, id: uid(), operation: this, created: Date.now()};
+				item = {...operationOutput, id: uid(), operation: this, inputIds, created: Date.now()};
 				break;
 			case 'string':
-				item = {...operationOutput, id: uid(), operation: this, created: Date.now()};
+				item = {...operationOutput, id: uid(), operation: this, inputIds, created: Date.now()};
 				break;
 			case 'warning':
 			case 'error':
-				item = {...operationOutput, id: uid(), operation: this, created: Date.now()};
+				item = {...operationOutput, id: uid(), operation: this, inputIds, created: Date.now()};
 				break;
 		}
 
+		// Written right away, so the log is complete even when history is trimmed
+		if (item) this.profile.outputLog.write(item);
+
 		action(() => {
 			if (!item) return;
 			this.outputs.edit((outputs) => outputs.push(item!));
 			this.store.outputs.add(item);
 
+			// Outputs can finish stat-ing after operation already ended
+			if (item.kind === 'file' && this.state.value === 'done') this.updateBatchSizes();
+
 			if (item.kind === 'warning' || item.kind === 'error') {
 				if (item.kind === 'error') {
 					if (!this.belongsToErrors()) {
@@ -382,6 +517,97 @@ export class Operation {
 				if (this.store.settings.beepOnOperationError()) shell.beep();
 			}
 		});
+
+		if (item?.kind === 'file' || item?.kind === 'url' || item?.kind === 'string') this.chainOutput(item);
+	};
+
+	/**
+	 * Guesses which inputs an output was produced from. Outputs of bulk
+	 * operations are matched to inputs by file names, and fall back to all
+	 * inputs when that is not possible.
+	 */
+	protected getSourceInputIds = (output: OperationOutput): string[] => {
+		const inputs = this.inputs;
+
+		if (inputs.length > 1 && (output.kind === 'file' || output.kind === 'directory')) {
+			const outputStem = getPathStem(output.path);
+			const stems = inputs.map((input) => ('path' in input ? getPathStem(input.path) : null));
+			let matches = inputs.filter((_, index) => stems[index] === outputStem);
+			if (matches.length === 0) {
+				matches = inputs.filter((_, index) => stems[index] && outputStem.startsWith(stems[index]!));
+			}
+			if (matches.length > 0) return matches.map((input) => input.id);
+		}
+
+		return inputs.map((input) => input.id);
+	};
+
+	/**
+	 * Total size of file inputs, and file outputs produced from them, or
+	 * `null` when operation has no such outputs.
+	 */
+	sizes = computed(() => {
+		const inputSizes = new Map<string, number>();
+		let outputSize = 0;
+		let hasSizes = false;
+
+		for (const output of this.outputs()) {
+			const sizes = getItemSizes(output);
+			if (!sizes) continue;
+			hasSizes = true;
+			outputSize += sizes.outputSize;
+			// Inputs with multiple outputs are counted only once
+			const key = output.inputIds!.join(',');
+			inputSizes.set(key, sizes.inputSize);
+		}
+
+		if (!hasSizes) return null;
+
+		let inputSize = 0;
+		for (const size of inputSizes.values()) inputSize += size;
+
+		return {inputSize, outputSize};
+	});
+
+	/**
+	 * Adds changes in operation's sizes to profile's batch totals.
+	 */
+	protected updateBatchSizes = () => {
+		const sizes = this.sizes.value || {inputSize: 0, outputSize: 0};
+		this.profile.batch.addSizes(
+			sizes.inputSize - this.batchSizes.inputSize,
+			sizes.outputSize - this.batchSizes.outputSize
+		);
+		this.batchSizes = sizes;
+	};
+
+	/**
+	 * Pipes output item into the profile this operation's profile is chained to.
+	 */
+	chainOutput = (item: ItemFile | ItemUrl | ItemString) => {
+		const target = this.profile.chainTarget();
+
+		if (!target || (item.kind === 'file' && !item.exists)) return;
+
+		if (this.profile.isChainCyclic()) {
+			this.handleLog(`Output not chained, profile chain is cyclic.`);
+			return;
+		}
+
+		if (!target.isReady()) {
+			this.handleLog(`Output not chained, target profile "${target.displayTitle()}" is not ready.`);
+			return;
+		}
+
+		const key = item.kind === 'file' ? item.path : item.kind === 'url' ? item.url : item.contents;
+		if (this.chained.has(`${item.kind}:${key}`)) return;
+		this.chained.add(`${item.kind}:${key}`);
+
+		// Strip operation reference, chained items are new inputs
+		const {operation, ...rawItem} = item;
+		target.dropItems([rawItem], {action: 'chain', modifiers: ''}).catch((error) => {
+			this.handleLog(`Output chaining error: ${eem(error)}`);
+		});
 	};
 
 	/**
@@ -389,6 +615,7 @@ export class Operation {
 	 */
 	process = async () => {
 		const processor = this.profile.processor();
+		let stopWatchdog: (() => void) | undefined;
 
 		try {
 			if (!processor) {
@@ -402,18 +629,122 @@ export class Operation {
 				return;
 			}
 			this.thread = this.store.worker.getFreeThread(processor.id);
+			stopWatchdog = this.startWatchdog();
 			await this.thread.processOperation(this);
 		} catch (error) {
+			this.failure = this.failure || 'crash';
 			this.handleOutput({
 				kind: 'error',
 				message: eem(error, true),
 			});
+		} finally {
+			stopWatchdog?.();
 		}
 
-		this.end();
 		this.thread = null;
+		if (this.shouldRetry()) this.retry();
+		else this.end();
+	};
+
+	/**
+	 * Kills the thread when operation exceeds profile's time limits.
+	 * Returns a function that stops the watchdog.
+	 */
+	protected startWatchdog = () => {
+		const timeout = this.profile.commonOptions.timeout() * 1000;
+		const inactivityTimeout = this.profile.commonOptions.inactivityTimeout() * 1000;
+
+		if (!timeout && !inactivityTimeout) return () => {};
+
+		this.lastActivity = Date.now();
+
+		const intervalId = setInterval(() => {
+			const now = Date.now();
+			const started = this.started.value ?? now;
+			let message: string | undefined;
+
+			if (timeout && now - started > timeout) {
+				message = `Operation timed out, it exceeded the time limit of ${formatDuration(timeout)}.`;
+			} else if (inactivityTimeout && now - this.lastActivity > inactivityTimeout) {
+				message = `Operation timed out, it didn't send any progress, log, or stage update for ${formatDuration(
+					inactivityTimeout
+				)}.`;
+			}
+
+			if (message) {
+				clearInterval(intervalId);
+				this.failure = 'timeout';
+				this.thread?.spinDown(message);
+			}
+		}, 1000);
+
+		return () => clearInterval(intervalId);
+	};
+
+	/**
+	 * Checks profile's retry policy against the failure of the last run.
+	 */
+	shouldRetry = () => {
+		if (!this.hasError.value) return false;
+
+		const {retryCount, retryOnError, retryOnCrash, retryOnTimeout} = this.profile.commonOptions;
+
+		if (this.retries.value >= retryCount.value) return false;
+
+		switch (this.failure || 'error') {
+			case 'error':
+				return retryOnError.value;
+			case 'crash':
+				return retryOnCrash.value;
+			case 'timeout':
+				return retryOnTimeout.value;
+			default:
+				return false;
+		}
 	};
 
+	/**
+	 * Puts failed operation back to the front of the queue, and delays its
+	 * next start according to profile's retry backoff.
+	 * Operation keeps its batch item, so retries don't count towards batch,
+	 * and outputs of failed runs, as they are already in history, output log,
+	 * and chained.
+	 */
+	retry = createAction(() => {
+		const {retryCount, retryDelay, retryBackoff} = this.profile.commonOptions;
+		const retries = this.retries() + 1;
+		const delay = Math.round(retryDelay() * 1000 * Math.pow(retryBackoff(), retries - 1));
+
+		this.handleLog(
+			`>>RETRY: ${retries}/${retryCount()} in ${formatDuration(delay)}, last run failed with: ${
+				this.failure || 'error'
+			}`
+		);
+		this.resetRun();
+		this.retries(retries);
+		this.retryAt(Date.now() + delay);
+		this.state('queued');
+
+		this.store.operations.pending.edit((pending) => arrayDeleteValue(pending, this));
+		this.store.operations.queued.edit((queued) => queued.unshift(this));
+		setTimeout(() => this.store.worker.requestFillThreads(), delay);
+		this.store.worker.requestFillThreads();
+	});
+
+	/**
+	 * Resets state of the last run, so the operation can run again.
+	 */
+	protected resetRun = createAction(() => {
+		this.failure = null;
+		this.ended(null);
+		this.hasError(false);
+		this.meta(null);
+		this.stage(null);
+		this.progressData({});
+		this.eta(null);
+		this.etaSnaps = null;
+	});
+
 	/**
 	 * Starts the operation.
 	 */
@@ -422,6 +753,7 @@ export class Operation {
 
 		action(() => {
 			this.runs(this.runs() + 1);
+			this.retryAt(null);
 
 			// Remove this operation from queued and add to pending operations
 			this.store.operations.queued.edit((queued) => arrayDeleteValue(queued, this));
@@ -434,6 +766,28 @@ export class Operation {
 		await this.process();
 	};
 
+	/**
+	 * Puts queued operation on hold, so that worker skips it until released.
+	 */
+	hold = createAction(() => {
+		if (this.state() === 'queued') this.state('held');
+	});
+
+	/**
+	 * Releases held operation back into the queue.
+	 */
+	release = createAction(() => {
+		if (this.state() !== 'held') return;
+		this.state('queued');
+		this.store.worker.requestFillThreads();
+	});
+
+	toggleHold = () => (this.state() === 'held' ? this.release() : this.hold());
+
+	moveToFront = () => this.store.operations.moveInQueue(this, 'front');
+
+	moveToBack = () => this.store.operations.moveInQueue(this, 'back');
+
 	/**
 	 * Ends the operation:
 	 * - removes itself from `operations.pending`
@@ -454,6 +808,15 @@ export class Operation {
 
 		// Profile batch status
 		this.profile.batch.insert(this.hasError() ? BatchItem.error : BatchItem.completed);
+		this.updateBatchSizes();
+		if (this.hasError()) this.profile.hooks.operationError(this);
+		if (this.profile.batch.isDone()) {
+			this.store.notifications.batchDone(this.profile);
+			this.profile.hooks.batchDone();
+		}
+
+		this.store.statistics.record(this);
+		this.logSpool.flush();
 	});
 
 	/**
@@ -473,14 +836,14 @@ export class Operation {
 
 		action(() => {
 			this.profile.batch.increment();
-			this.ended(null);
+			this.resetRun();
+			this.batchSizes = {inputSize: 0, outputSize: 0};
 			this.outputs([]);
-			this.hasError(false);
-			this.meta(null);
-			this.stage(null);
-			this.progressData({});
+			this.chained.clear();
+			this.retries(0);
 			this.logsCount(0);
-			this.logs('');
+			this.setLogLines([]);
+			this.logSpool.delete();
 			promise = this.start();
 		});
 
@@ -490,7 +853,11 @@ export class Operation {
 	/**
 	 * Forcibly kills the ongoing operation process.
 	 */
-	stop = createAction((message: string = 'Stopped by user.') => this.thread?.spinDown(message));
+	stop = createAction((message: string = 'Stopped by user.') => {
+		if (!this.thread) return;
+		this.failure = 'stop';
+		this.thread.spinDown(message);
+	});
 
 	/**
 	 * Forcibly kills the ongoing operation process.
@@ -500,6 +867,86 @@ export class Operation {
 		if (this.state() !== 'done') this.profile.batch.decrement();
 		this.store.operations.deleteOperation(this);
 	});
+
+	/**
+	 * Marks operation as ended with an error without ever running it.
+	 */
+	fail = createAction((message: string) => {
+		const item: ItemError = {kind: 'error', message, id: uid(), created: Date.now(), operation: this};
+		this.outputs.edit((outputs) => outputs.push(item));
+		this.store.outputs.add(item);
+		this.handleLog(`Error: ${message}`);
+		this.hasError(true);
+		this.belongsToErrors(true);
+		this.state('done');
+		this.ended(Date.now());
+	});
+
+	toJSON(): StoredOperation {
+		return {
+			id: this.id,
+			profileId: this.profile.id,
+			processorId: this.profile.processorId,
+			profileTitle: this.profile.title.value,
+			state: this.state.value,
+			payload: serializePayload(this.payload),
+			inputs: this.inputs.map(serializeItem),
+			outputs: this.outputs.value.map(serializeItem),
+			title: this.title.value,
+			runs: this.runs.value,
+			meta: this.meta.value,
+			logLines: this.logLines.value,
+			logsTrimmed: this.logsTrimmed.value,
+			logsCount: this.logsCount.value,
+			hasError: this.hasError.value,
+			belongsToErrors: this.belongsToErrors.value,
+			created: this.created.value,
+			started: this.started.value,
+			ended: this.ended.value,
+		};
+	}
+
+	/**
+	 * Re-creates operation from its journaled state.
+	 * Operations that didn't finish are restored as `held`, and it's up to the
+	 * caller to release them. Pending operations were interrupted, so their
+	 * partial results are discarded.
+	 */
+	static restore(data: StoredOperation, profile: Profile, store: Store) {
+		const operation = new Operation(deserializePayload(data.payload), profile, store, data.id);
+		const wasInterrupted = data.state === 'pending';
+
+		action(() => {
+			operation.inputs = data.inputs.map((item) => ({...deserializeItem(item), operation} as ItemModel));
+			operation.created(data.created);
+			operation.title(data.title);
+			operation.runs(data.runs);
+
+			if (wasInterrupted) {
+				operation.handleLog(`Operation was interrupted by app exit, and restored back into the queue.`);
+			} else {
+				operation.outputs(data.outputs.map((item) => ({...deserializeItem(item), operation} as ItemModel)));
+				operation.meta(data.meta);
+				operation.setLogLines(
+					data.logLines ??
+						(data.logs || '')
+							.split('\n')
+							.filter(Boolean)
+							.map((text) => ({time: data.ended ?? data.created, source: 'app', text})),
+					data.logsTrimmed
+				);
+				operation.logsCount(data.logsCount);
+				operation.hasError(data.hasError);
+				operation.belongsToErrors(data.belongsToErrors);
+				operation.started(data.started);
+				operation.ended(data.ended);
+			}
+
+			operation.state(data.state === 'done' ? 'done' : 'held');
+		});
+
+		return operation;
+	}
 }
 
 /**
@@ -514,13 +961,18 @@ export class Operation {
  */
 export class Operations {
 	store: Store;
+	storeFilePath: string;
+	logSpoolsPath: string;
 	byId = signal<Map<string, Operation>>(new Map());
 	queued = signal<Operation[]>([]);
 	pending = signal<Operation[]>([]);
 	all = signal<Operation[]>([]);
 	errors = signal<Operation[]>([]);
+	changeReactionDisposer: Disposer | null = null;
 
-	constructor(store: Store) {
+	constructor(storeFilePath: string, store: Store) {
+		this.storeFilePath = storeFilePath;
+		this.logSpoolsPath = Path.join(Path.dirname(storeFilePath), 'operation-logs');
 		this.store = store;
 	}
 
@@ -535,18 +987,46 @@ export class Operations {
 				this.pending.edit(deleteOperation);
 				break;
 			case 'queued':
+			case 'held':
 				this.queued.edit(deleteOperation);
 				break;
 		}
 		this.all.edit(deleteOperation);
+		operation.logSpool.delete();
 	});
 
 	addOperation = (operation: Operation) => {
 		this.byId.edit((byId) => byId.set(operation.id, operation));
-		if (operation.state.value === 'queued') this.queued.edit((operations) => operations.push(operation));
+		if (isInQueue(operation)) this.queued.edit((operations) => operations.push(operation));
 		this.all.edit((operations) => operations.push(operation));
 	};
 
+	/**
+	 * Moves queued or held operation to the front or back of the queue.
+	 * Operation is also moved in `all`, so that the change is visible in UI.
+	 */
+	moveInQueue = createAction((operation: Operation, position: 'front' | 'back') => {
+		if (!isInQueue(operation)) return;
+
+		this.queued.edit((queued) => {
+			arrayDeleteValue(queued, operation);
+			if (position === 'front') queued.unshift(operation);
+			else queued.push(operation);
+		});
+
+		this.all.edit((all) => {
+			arrayDeleteValue(all, operation);
+			if (position === 'front') {
+				const firstQueuedIndex = all.findIndex(isInQueue);
+				all.splice(firstQueuedIndex === -1 ? all.length : firstQueuedIndex, 0, operation);
+			} else {
+				all.push(operation);
+			}
+		});
+
+		this.store.worker.requestFillThreads();
+	});
+
 	filter = createAction((predicate: (operation: Operation, index: number, operations: Operation[]) => boolean) => {
 		const byId = this.byId();
 		const all = this.all();
@@ -560,6 +1040,7 @@ export class Operations {
 				if (operation.belongsToErrors.value) newErrors.push(operation);
 			} else {
 				byId.delete(operation.id);
+				operation.logSpool.delete();
 			}
 		}
 
@@ -580,8 +1061,8 @@ export class Operations {
 
 		this.filter(
 			onlyProfile
-				? (operation) => operation.state.value !== 'queued' || operation.profile !== onlyProfile
-				: (operation) => operation.state.value !== 'queued'
+				? (operation) => !isInQueue(operation) || operation.profile !== onlyProfile
+				: (operation) => !isInQueue(operation)
 		);
 
 		// Update profile's batch
@@ -624,6 +1105,269 @@ export class Operations {
 			return historySize < limit || !isDone;
 		});
 	});
+
+	/**
+	 * Journals the queue and the recent history into a file, so it can be
+	 * restored on next app start.
+	 */
+	startWatching = () => {
+		if (this.changeReactionDisposer) return;
+
+		// Queue and history arrays change on every operation state transition
+		const save = debounce(this.save, 1000);
+		const disposeReaction = reaction(
+			() => ({
+				all: this.all(),
+				queued: this.queued(),
+				pending: this.pending(),
+				persist: this.store.settings.persistOperations(),
+				historyLimit: this.store.settings.persistedHistoryLimit(),
+			}),
+			() => save()
+		);
+
+		// Pending operations are still producing outputs, and debounced save
+		// might not make it in time, so we also save synchronously on exit.
+		// Same goes for their buffered log spools.
+		const saveSync = () => {
+			if (this.store.settings.persistOperations()) {
+				for (const operation of this.pending()) operation.logSpool.flushSync();
+				writeFileSync(this.storeFilePath, JSON.stringify(this.toJSON()));
+			}
+		};
+		addEventListener('beforeunload', saveSync);
+
+		this.changeReactionDisposer = () => {
+			disposeReaction();
+			save.cancel();
+			removeEventListener('beforeunload', saveSync);
+		};
+	};
+
+	stopWatching = () => {
+		this.changeReactionDisposer?.();
+		this.changeReactionDisposer = null;
+	};
+
+	/**
+	 * Writes into a temporary file first, so that a crash mid-write doesn't
+	 * corrupt the journal.
+	 */
+	save = async () => {
+		try {
+			if (!this.store.settings.persistOperations()) {
+				await deletePath(this.storeFilePath);
+				return;
+			}
+			const tmpPath = `${this.storeFilePath}.tmp`;
+			await outputFile(tmpPath, JSON.stringify(this.toJSON()));
+			await FSP.rename(tmpPath, this.storeFilePath);
+		} catch (error) {
+			console.error(`operations.save():`, error);
+		}
+	};
+
+	/**
+	 * Restores journaled operations. Operations that didn't finish are held
+	 * until their processors are ready, and than either resumed, or the user
+	 * is asked to resume them, depending on the `restoredQueue` setting.
+	 */
+	load = async () => {
+		if (!this.store.settings.persistOperations()) return;
+
+		let storedData: unknown;
+		try {
+			storedData = await readJson(this.storeFilePath);
+		} catch (error) {
+			if ((error as any)?.code !== 'ENOENT') console.error(`operations.load():`, error);
+			return;
+		}
+
+		if (!Array.isArray(storedData)) return;
+
+		const {profiles, outputs} = this.store;
+		const placeholders = new Map<string, Profile>();
+		const toResume: Operation[] = [];
+
+		action(() => {
+			for (const data of storedData as unknown[]) {
+				if (!isStoredOperation(data)) continue;
+
+				let profile = profiles.byId().get(data.profileId) || placeholders.get(data.profileId);
+				let operation: Operation;
+				try {
+					if (!profile) {
+						profile = profiles.createPlaceholder({
+							id: data.profileId,
+							processorId: data.processorId,
+							title: data.profileTitle,
+						});
+						placeholders.set(profile.id, profile);
+					}
+					operation = Operation.restore(data, profile, this.store);
+				} catch (error) {
+					console.error(`Operation "${data.id}" couldn't be restored:`, error);
+					continue;
+				}
+
+				if (operation.state() !== 'done') {
+					if (placeholders.has(profile.id)) {
+						operation.fail(`Operation couldn't be resumed, its profile "${profile.id}" no longer exists.`);
+					} else if (!profile.processor()) {
+						operation.fail(
+							`Operation couldn't be resumed, profile's processor "${profile.processorId}" is missing.`
+						);
+					} else {
+						profile.batch.increment();
+						if (data.state !== 'held') toResume.push(operation);
+					}
+				}
+
+				this.byId.edit((byId) => byId.set(operation.id, operation));
+				if (isInQueue(operation)) this.queued.edit((operations) => operations.push(operation));
+				this.all.edit((operations) => operations.push(operation));
+				if (operation.belongsToErrors()) this.errors.edit((errors) => errors.push(operation));
+				for (const item of operation.outputs()) outputs.add(item);
+			}
+		});
+
+		if (toResume.length > 0) this.resumeWhenReady(toResume);
+	};
+
+	/**
+	 * Deletes log spools of operations that no longer exist, which are left
+	 * behind by crashes, or by not persisting operations between sessions.
+	 */
+	deleteOrphanedLogSpools = async () => {
+		let files: string[];
+		try {
+			files = await FSP.readdir(this.logSpoolsPath);
+		} catch {
+			return;
+		}
+
+		const byId = this.byId();
+		for (const file of files) {
+			if (!byId.has(Path.basename(file, '.jsonl'))) await deletePath(Path.join(this.logSpoolsPath, file));
+		}
+	};
+
+	/**
+	 * Releases restored operations once their processors are ready, or asks
+	 * the user to do so.
+	 */
+	protected resumeWhenReady = (operations: Operation[]) => {
+		const profiles = new Set(operations.map((operation) => operation.profile));
+		const resume = createAction(() => {
+			for (const operation of operations) operation.release();
+		});
+
+		const isReady = () =>
+			this.store.node.isReady() && [...profiles].every((profile) => !profile.dependenciesLoading());
+		const onReady = () => {
+			if (this.store.settings.restoredQueue() === 'resume') {
+				resume();
+				return;
+			}
+
+			this.store.events
+				.create({
+					variant: 'info',
+					icon: 'history',
+					title: `Operations restored`,
+					message: `${operations.length} unfinished operation(s) from the last session are on hold.`,
+					actions: [{icon: 'play', title: 'Resume', action: resume}],
+				})
+				.open();
+		};
+
+		if (isReady()) return onReady();
+
+		const dispose = reaction(isReady, (ready) => {
+			if (!ready) return;
+			dispose();
+			onReady();
+		});
+	};
+
+	toJSON(): StoredOperation[] {
+		const all = this.all.value;
+		const historyLimit = this.store.settings.persistedHistoryLimit.value;
+		const operations: StoredOperation[] = [];
+		let historySize = 0;
+
+		// Walk backwards so that the most recent history is kept
+		for (let i = all.length - 1; i >= 0; i--) {
+			const operation = all[i]!;
+			if (operation.state.value === 'done' && historySize++ >= historyLimit) continue;
+			operations.push(operation.toJSON());
+		}
+
+		return operations.reverse();
+	}
+}
+
+/**
+ * Held operations stay in queue, they are only skipped when filling threads.
+ */
+function isInQueue(operation: Operation) {
+	const state = operation.state.value;
+	return state === 'queued' || state === 'held';
+}
+
+/**
+ * Formats log entries into plain text, for saving into a file.
+ */
+export function formatLogEntries(entries: OperationLogEntry[]) {
+	return entries
+		.map(({time, source, text}) => `${new Date(time).toISOString()} [${source}] ${stripAnsi(text)}`)
+		.join('\n');
+}
+
+function isStoredOperation(value: any): value is StoredOperation {
+	return (
+		isType<Record<string, unknown>>(value, Type.Object) &&
+		isType<string>(value.id, Type.String) &&
+		isType<string>(value.profileId, Type.String) &&
+		['queued', 'held', 'pending', 'done'].includes(value.state as string) &&
+		isType<StoredPayload>(value.payload, Type.Object) &&
+		isType<unknown[]>(value.inputs, Type.Array) &&
+		isType<unknown[]>(value.outputs, Type.Array)
+	);
+}
+
+/** Lowercase file name without extension, used to match outputs to inputs. */
+function getPathStem(path: string) {
+	return Path.basename(path, Path.extname(path)).toLowerCase();
+}
+
+/**
+ * Strips operation reference and encodes blob contents, so that items can be
+ * stored as JSON.
+ */
+function serializeItem(item: Item | ItemModel): SerializedItem {
+	const {operation, ...rawItem} = item as ItemModel;
+	return rawItem.kind === 'blob' ? {...rawItem, contents: rawItem.contents.toString('base64')} : rawItem;
+}
+
+function deserializeItem(item: SerializedItem) {
+	return (item.kind === 'blob' ? {...item, contents: Buffer.from(item.contents, 'base64')} : item) as Item;
+}
+
+function serializePayload(payload: AnyPayload): StoredPayload {
+	return {
+		...payload,
+		input: payload.input ? serializeItem(payload.input) : undefined,
+		inputs: payload.inputs?.map(serializeItem),
+	};
+}
+
+function deserializePayload(payload: StoredPayload): OperationPayload & {[key: string]: any} {
+	return {
+		...payload,
+		input: payload.input ? deserializeItem(payload.input) : undefined,
+		inputs: payload.inputs?.map(deserializeItem),
+	};
 }
 
 export default Operations;
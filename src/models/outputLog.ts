@@ -0,0 +1,128 @@
+import {promises as FSP} from 'fs';
+import Path from 'path';
+import {eem, normalizePath, hashOptions} from 'lib/utils';
+import {exists} from 'lib/fs';
+import {getItemValue, getSourceInputs} from 'models/items';
+import type {Store} from 'models/store';
+import type {Profile} from 'models/profiles';
+import type {Item} from 'models/items';
+
+export interface OutputLogLine {
+	time: string;
+	profile: string;
+	profileTitle: string;
+	operation: string;
+	operationStarted: string | null;
+	optionsHash: string;
+	kind: Item['kind'];
+	value: string;
+	size?: number;
+	type?: string;
+	inputs: string[];
+}
+
+/**
+ * Appends profile's outputs as JSON lines into a log file, and rotates it
+ * when it exceeds the size limit configured in profile's common options.
+ * Rotated files are suffixed with a number, where `.1` is the newest one.
+ */
+export class ProfileOutputLog {
+	store: Store;
+	profile: Profile;
+	protected queue: Promise<void> = Promise.resolve();
+	protected errorReported = false;
+
+	constructor(profile: Profile, store: Store) {
+		this.profile = profile;
+		this.store = store;
+	}
+
+	getPath = () => {
+		const customPath = this.profile.commonOptions.outputLogPath().trim();
+		return customPath
+			? normalizePath(customPath)
+			: Path.join(this.store.app.userDataPath, 'output-logs', `${this.profile.id}.jsonl`);
+	};
+
+	/**
+	 * Queues item to be written into the log. Writes are serialized so that
+	 * lines don't interleave, and rotation doesn't race with appends.
+	 */
+	write = (item: Item) => {
+		if (!this.profile.commonOptions.outputLog()) return;
+
+		const path = this.getPath();
+		const maxSize = this.profile.commonOptions.outputLogMaxSize() * 1024 * 1024;
+		const maxFiles = this.profile.commonOptions.outputLogMaxFiles();
+		const line = `${JSON.stringify(this.serialize(item))}\n`;
+
+		this.queue = this.queue.then(async () => {
+			try {
+				await this.rotateMaybe(path, Buffer.byteLength(line), maxSize, maxFiles);
+				await FSP.mkdir(Path.dirname(path), {recursive: true});
+				await FSP.appendFile(path, line);
+				this.errorReported = false;
+			} catch (error) {
+				this.reportError(`Writing into "${path}" failed: ${eem(error)}`);
+			}
+		});
+	};
+
+	protected serialize = (item: Item): OutputLogLine => {
+		const operation = item.operation;
+		const started = operation.started();
+		const line: OutputLogLine = {
+			time: new Date(item.created).toISOString(),
+			profile: this.profile.id,
+			profileTitle: this.profile.displayTitle(),
+			operation: operation.id,
+			operationStarted: started ? new Date(started).toISOString() : null,
+			optionsHash: hashOptions(operation.payload.options),
+			kind: item.kind,
+			value: getItemValue(item),
+			inputs: (item.inputIds ? getSourceInputs(item) : operation.inputs).map(getItemValue),
+		};
+		if (item.kind === 'file') line.size = item.size;
+		if (item.kind === 'string') line.type = item.type;
+		return line;
+	};
+
+	/**
+	 * Shifts `log.N.jsonl` files up, and moves current log into `log.1.jsonl`
+	 * when appending to it would exceed `maxSize`. `0` disables rotation.
+	 */
+	protected rotateMaybe = async (path: string, addedSize: number, maxSize: number, maxFiles: number) => {
+		if (maxSize <= 0) return;
+
+		let size = 0;
+		try {
+			size = (await FSP.stat(path)).size;
+		} catch {}
+
+		if (size === 0 || size + addedSize <= maxSize) return;
+
+		const extension = Path.extname(path);
+		const base = path.slice(0, path.length - extension.length);
+		const rotatedPath = (index: number) => `${base}.${index}${extension}`;
+
+		await FSP.rm(rotatedPath(maxFiles), {force: true});
+		for (let index = maxFiles - 1; index >= 1; index--) {
+			if (await exists(rotatedPath(index))) await FSP.rename(rotatedPath(index), rotatedPath(index + 1));
+		}
+
+		if (maxFiles > 0) await FSP.rename(path, rotatedPath(1));
+		else await FSP.rm(path, {force: true});
+	};
+
+	// Reported only once until the next successful write, so that a broken
+	// log path doesn't spam an event for every output
+	protected reportError = (message: string) => {
+		if (this.errorReported) return;
+		this.errorReported = true;
+		this.store.events.create({
+			variant: 'danger',
+			title: `Output log error`,
+			message: `Profile "${this.profile.displayTitle()}": ${message}`,
+		});
+	};
+}
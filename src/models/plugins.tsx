@@ -1,4 +1,5 @@
 import {h} from 'preact';
+import {ipcRenderer} from 'electron';
 import Path from 'path';
 import manifest from 'manifest';
 import FS, {promises as FSP} from 'fs';
@@ -13,12 +14,30 @@ import {
 	colonIdMeta,
 	serializePluginIdentifier,
 } from 'lib/serialize';
-import {deletePath} from 'lib/fs';
+import {deletePath, outputFile, readJson} from 'lib/fs';
 import {loadDynamicModule} from 'lib/loadDynamicModule';
 import semverCompare from 'semver-compare';
 import {registry} from 'lib/registry';
+import {
+	createPluginsLockfile,
+	validatePluginsLockfile,
+	getLockedInstallId,
+	getMissingLocalSource,
+	resolveLocalPluginSource,
+	PluginsLockfile,
+} from 'lib/pluginsLock';
+import {
+	isValidVersionRange,
+	satisfiesVersionRange,
+	maxSatisfyingVersion,
+	createPluginBackup,
+	loadPluginBackups,
+	restorePluginBackup,
+	deletePluginBackup,
+	PluginBackup,
+} from 'lib/pluginVersions';
 import type {CreatePluginTemplateProps} from 'dynamic/pluginTemplate';
-import {PluginDependentsModalContent} from 'components/Plugin';
+import {PluginDependentsModalContent, PluginPermissionsList} from 'components/Plugin';
 import {Staging, SubstageCreator} from 'models/staging';
 import {Processor} from 'models/processors';
 import {Dependency} from 'models/dependencies';
@@ -27,6 +46,14 @@ import {NonOfficialPluginInstallWarning, ExternalPluginInstallWarning} from 'com
 import type {Profile} from 'models/profiles';
 import type {Store} from 'models/store';
 import type {Issue} from 'components/Issues';
+import type {ModalActionLoose} from 'models/modals';
+import {escapeHtml} from 'lib/ansi';
+import {
+	PluginPermissions,
+	validatePluginPermissions,
+	serializePluginPermissions,
+	describePluginPermissions,
+} from 'lib/permissions';
 
 /**
  * Check if value satisfies one flags.
@@ -69,6 +96,8 @@ export class Plugin {
 	version: string;
 	requiredNodeVersion: string | null;
 	requiredAppVersion: string | null;
+	permissions: PluginPermissions | null = null; // `null` when not declared
+	permissionsError: string | null = null;
 	description?: string;
 	readme?: string;
 	homepage?: string;
@@ -123,6 +152,14 @@ export class Plugin {
 		// Determine min required node & app versions
 		this.requiredNodeVersion = extractMinManifestEnginesVersion(this.meta.engines?.node);
 		this.requiredAppVersion = extractMinManifestEnginesVersion(this.meta.engines?.drovp);
+
+		// Declared permissions, invalid manifest is reported as an issue
+		const permissions = this.meta.drovp?.permissions;
+		try {
+			if (permissions != null && validatePluginPermissions(permissions)) this.permissions = permissions;
+		} catch (error) {
+			this.permissionsError = eem(error);
+		}
 	}
 
 	/**
@@ -250,6 +287,31 @@ export class Plugin {
 			});
 		}
 
+		// Permissions
+		if (this.permissionsError) {
+			issues.push({
+				title: `Invalid permissions manifest`,
+				message: `<pre><code>${escapeHtml(this.permissionsError)}</code></pre>`,
+			});
+		}
+
+		const grantedPermissions = this.store.plugins.grantedPermissions().get(this.name);
+		if (grantedPermissions != null && grantedPermissions !== serializePluginPermissions(this.permissions)) {
+			const permissionLines = describePluginPermissions(this.permissions).map(escapeHtml).join('<br>');
+			issues.push({
+				title: `Plugin permissions changed`,
+				message: `Installed version requests different permissions than the ones you approved:<br>${permissionLines}`,
+				actions: [
+					{
+						icon: 'check',
+						title: 'Approve',
+						variant: 'success',
+						action: () => this.store.plugins.grantPermissions(this.name, this.permissions),
+					},
+				],
+			});
+		}
+
 		// OS
 		const platform = OS.platform();
 		const osFlags = this.meta.os;
@@ -352,18 +414,38 @@ export class Plugin {
 		}
 	});
 
+	/**
+	 * Version range this plugin is pinned to, if any.
+	 */
+	pin = () => this.store.plugins.pins().get(this.name);
+
+	/**
+	 * Pinned plugins are only updated to the highest version satisfying the pin.
+	 */
 	checkForUpdates = async () => {
 		if (!this.isLocal && this.version) {
 			action(() => this.isCheckingForUpdates(true));
-			let latestVersion!: string;
+			const pin = this.pin();
+			let latestVersion: string | undefined;
 			try {
-				latestVersion = await registry.latestVersion(this.name);
+				if (pin) {
+					const versions = (await registry.meta(this.name)).versions || [];
+					latestVersion = maxSatisfyingVersion(
+						versions.map(({version}) => version),
+						pin
+					);
+				} else {
+					latestVersion = await registry.latestVersion(this.name);
+				}
 			} catch (error) {
 				console.error(`Plugin "${this.name}" update check error:`, error);
 			}
 
 			action(() => {
-				if (latestVersion && latestVersion > this.version) this.updateAvailable(latestVersion);
+				const isNewer = (version: string) =>
+					pin ? semverCompare(version, this.version) > 0 : version > this.version;
+				if (latestVersion && isNewer(latestVersion)) this.updateAvailable(latestVersion);
+				else if (pin) this.updateAvailable(false);
 				this.isCheckingForUpdates(false);
 			});
 		} else {
@@ -382,6 +464,17 @@ export class Plugin {
 	 */
 	update = () => !this.isLocal && this.store.plugins.update(this.name);
 
+	pinMaybe = () => this.store.plugins.pinMaybe(this.name);
+
+	installVersionMaybe = (version: string) => this.store.plugins.installVersionMaybe(this.name, version);
+
+	/**
+	 * Backup of the version before the last update or downgrade.
+	 */
+	backup = () => this.store.plugins.backups().get(this.name);
+
+	rollback = () => this.store.plugins.rollback(this.name);
+
 	/**
 	 * Prompt that warns against uninstalling, and lists dependents if any.
 	 */
@@ -480,6 +573,14 @@ export class Plugins {
 	path: string;
 	[Symbol.iterator] = () => this.ordered()[Symbol.iterator]();
 	dataPath: string;
+	lockfilePath: string;
+	pinsPath: string;
+	backupsPath: string;
+	permissionsPath: string;
+	pins = signal<Map<string, string>>(new Map()); // plugin name -> version range
+	backups = signal<Map<string, PluginBackup>>(new Map());
+	// Serialized permissions user approved when installing, by plugin name
+	grantedPermissions = signal<Map<string, string>>(new Map());
 	fsWatcher: FS.FSWatcher | null = null;
 	fsWatchingUnavailable = signal(false);
 	symlinkDirIsInitialized = false;
@@ -488,6 +589,10 @@ export class Plugins {
 		this.store = store;
 		this.path = Path.join(store.app.userDataPath, 'plugins');
 		this.dataPath = Path.join(store.app.userDataPath, 'pluginsData');
+		this.lockfilePath = Path.join(store.app.userDataPath, 'plugins-lock.json');
+		this.pinsPath = Path.join(store.app.userDataPath, 'plugin-pins.json');
+		this.backupsPath = Path.join(store.app.userDataPath, 'pluginBackups');
+		this.permissionsPath = Path.join(store.app.userDataPath, 'plugin-permissions.json');
 
 		// Updates checking
 		createUpdatesChecker(
@@ -583,6 +688,53 @@ export class Plugins {
 			}
 		}
 
+		// Load version pins and update backups
+		try {
+			const pins = new Map<string, string>();
+			for (const [name, range] of Object.entries(await readJson(this.pinsPath))) {
+				if (typeof range === 'string') pins.set(name, range);
+			}
+			action(() => this.pins(pins));
+		} catch (error) {
+			if ((error as any)?.code !== 'ENOENT') {
+				this.store.events.create({
+					variant: 'danger',
+					title: `Plugin pins loading error`,
+					message: `Couldn't load plugin version pins.`,
+					details: eem(error),
+				});
+			}
+		}
+
+		try {
+			const grantedPermissions = new Map<string, string>();
+			for (const [name, permissions] of Object.entries(await readJson(this.permissionsPath))) {
+				if (typeof permissions === 'string') grantedPermissions.set(name, permissions);
+			}
+			action(() => this.grantedPermissions(grantedPermissions));
+		} catch (error) {
+			if ((error as any)?.code !== 'ENOENT') {
+				this.store.events.create({
+					variant: 'danger',
+					title: `Plugin permissions loading error`,
+					message: `Couldn't load approved plugin permissions.`,
+					details: eem(error),
+				});
+			}
+		}
+
+		try {
+			const backups = await loadPluginBackups(this.backupsPath);
+			action(() => this.backups(backups));
+		} catch (error) {
+			this.store.events.create({
+				variant: 'danger',
+				title: `Plugin backups loading error`,
+				message: `Couldn't load plugin update backups.`,
+				details: eem(error),
+			});
+		}
+
 		// Load plugins and start watching for changes
 		await this.reload();
 		this.startWatching();
@@ -673,46 +825,81 @@ export class Plugins {
 	});
 
 	/**
-	 * Warns about installing non-official plugins.
+	 * Warns about installing non-official plugins, and shows permissions
+	 * registry plugins declare. Absolute paths are installed as local sources.
 	 */
-	installMaybe = (input: string) => {
-		const install = () => this.install(input);
-		const meta = serializePluginIdentifier(input);
-		const WarningComponent = meta.isExternal
-			? this.store.settings.warnExternalInstall()
-				? ExternalPluginInstallWarning
-				: undefined
-			: !meta.isOfficial
-			? this.store.settings.warnNonOfficialInstall()
-				? NonOfficialPluginInstallWarning
-				: undefined
-			: undefined;
-
-		if (WarningComponent) {
-			this.store.modals.create({
-				variant: 'warning',
-				title: 'Warning!',
-				content: <WarningComponent id={input} />,
+	installMaybe = async (input: string) => {
+		if (Path.isAbsolute(input)) return this.installLocalMaybe([input]);
+		if (await this.confirmInstall([input])) return this.install(input);
+	};
+
+	/**
+	 * Shows install warnings of one or multiple plugins, and permissions of
+	 * the ones that declare them, or changed them since they were approved.
+	 * Permissions are recorded as approved when user confirms, resolves with
+	 * `false` when they cancel.
+	 */
+	confirmInstall = async (inputs: string[]) => {
+		const {settings, modals} = this.store;
+		const items = await Promise.all(
+			inputs.map(async (input) => {
+				const meta = serializePluginIdentifier(input);
+				const permissions =
+					meta.isExternal || !meta.name ? undefined : await this.fetchPermissions(meta.name, meta.version);
+				const WarningComponent = meta.isExternal
+					? settings.warnExternalInstall()
+						? ExternalPluginInstallWarning
+						: undefined
+					: !meta.isOfficial
+					? settings.warnNonOfficialInstall()
+						? NonOfficialPluginInstallWarning
+						: undefined
+					: undefined;
+				// Undeclared permissions are only shown when they replace declared ones
+				const granted = meta.name ? this.grantedPermissions().get(meta.name) : undefined;
+				const showPermissions =
+					permissions !== undefined &&
+					(permissions !== null || (granted != null && granted !== serializePluginPermissions(permissions)));
+				return {input, meta, permissions, showPermissions, WarningComponent};
+			})
+		);
+		const hasWarning = items.some(({WarningComponent}) => WarningComponent != null);
+
+		if (hasWarning || items.some(({showPermissions}) => showPermissions)) {
+			const title =
+				items.length === 1 ? `Install ${items[0]!.meta.displayName}?` : `Install ${items.length} plugins?`;
+			const {canceled} = await modals.create({
+				variant: hasWarning ? 'warning' : 'info',
+				title: hasWarning ? 'Warning!' : title,
+				content: items.map(({input, meta, permissions, showPermissions, WarningComponent}) => [
+					items.length > 1 && (WarningComponent || showPermissions) && <h3>{meta.displayName || input}</h3>,
+					WarningComponent && <WarningComponent id={input} />,
+					showPermissions && <PluginPermissionsList permissions={permissions ?? null} />,
+				]),
 				actions: [
 					{
 						icon: 'x',
 						title: 'Cancel',
 						muted: true,
 						focused: true,
-						action: () => {},
+						cancels: true,
 					},
 					{
 						variant: 'success',
 						icon: 'install',
 						title: 'Install',
 						disableWhenStaging: true,
-						action: install,
 					},
 				],
-			});
-		} else {
-			return install();
+			}).promise;
+			if (canceled) return false;
 		}
+
+		for (const {meta, permissions} of items) {
+			if (meta.name && permissions !== undefined) await this.grantPermissions(meta.name, permissions);
+		}
+
+		return true;
 	};
 
 	/**
@@ -725,8 +912,16 @@ export class Plugins {
 	 * plugins.install('module');
 	 * plugins.install('module@^1');
 	 * ```
+	 *
+	 * `saveExact` saves exact versions into plugins manifest instead of npm's
+	 * default `^version`, so that later installs don't drift from them.
 	 */
-	install = async (input: string | string[], substage?: SubstageCreator, skipAppUpdateCheck?: boolean) => {
+	install = async (
+		input: string | string[],
+		substage?: SubstageCreator,
+		skipAppUpdateCheck?: boolean,
+		saveExact?: boolean
+	) => {
 		const {dependencies, plugins, modals} = this.store;
 		const inputs = (Array.isArray(input) ? input : [input]).map(serializePluginIdentifier);
 		const pluginIds = inputs
@@ -787,11 +982,13 @@ export class Plugins {
 			}
 
 			// Finally, install the plugins(s)
-			await this.store.node.npm(['install', ...installIds], {
+			await this.writeNpmrc();
+			await this.store.node.npm(['install', ...(saveExact ? ['--save-exact'] : []), ...installIds], {
 				cwd: this.path,
 				onStdout: staging.log,
 				onStderr: staging.log,
 			});
+			await this.updateLockfile();
 		} catch (error) {
 			errorAndDone(error);
 			this.store.app.showError({
@@ -820,6 +1017,13 @@ export class Plugins {
 			staging.log(`newDependencies: ${newDependencies.map(({id}) => id).join(', ')}`);
 		});
 
+		// Not all installs go through the permissions prompt. Plugins without
+		// approved permissions get the installed ones recorded, so that
+		// changes in their future versions are reported.
+		for (const {name, permissions} of freshPlugins) {
+			if (!this.grantedPermissions().has(name)) await this.grantPermissions(name, permissions);
+		}
+
 		// Installing new dependencies with dependents
 		staging.log(`installing new dependencies with dependents`);
 		for (const dependency of newDependencies) {
@@ -938,6 +1142,11 @@ export class Plugins {
 
 		this.startWatching();
 		await staging.substage((substage) => this.reload(substage));
+		if (!this.byId().has(pluginId)) {
+			await this.deleteBackup(pluginId);
+			await this.revokePermissions(pluginId);
+			if (this.pins().has(pluginId)) await this.pin(pluginId, null);
+		}
 		staging.done();
 		if (resume) this.store.worker.resume();
 		if (history.location.path.startsWith(`/plugins/${pluginId}`)) history.push('/plugins');
@@ -952,11 +1161,13 @@ export class Plugins {
 		};
 		const staging = substage?.(descriptor) || this.store.staging.start(descriptor);
 		try {
+			await this.writeNpmrc();
 			await this.store.node.npm(['uninstall', pluginId], {
 				cwd: this.path,
 				onStdout: staging.log,
 				onStderr: staging.log,
 			});
+			await this.updateLockfile();
 		} catch (error) {
 			this.store.app.showError({
 				title: `Plugin uninstall error`,
@@ -968,6 +1179,264 @@ export class Plugins {
 		staging.done();
 	};
 
+	/**
+	 * Passes registry settings to npm via `.npmrc` in plugins directory, so
+	 * that tokens don't end up in process arguments. Only files we generated
+	 * are overwritten or removed, in case user maintains their own.
+	 */
+	protected writeNpmrc = async () => {
+		const npmrcPath = Path.join(this.path, '.npmrc');
+		const header = '# Generated from Drovp plugin registry settings, changes will be overwritten.\n';
+		let contents: string | null = null;
+
+		try {
+			contents = await FSP.readFile(npmrcPath, 'utf8');
+		} catch (error) {
+			if ((error as any)?.code !== 'ENOENT') throw error;
+		}
+
+		const isGenerated = contents?.startsWith(header) || false;
+
+		if (registry.isDefault()) {
+			if (isGenerated) await deletePath(npmrcPath);
+			return;
+		}
+
+		if (contents != null && !isGenerated) {
+			throw new Error(
+				`Registry settings can't be applied, plugins directory already has its own "${npmrcPath}". Move its configuration into registry settings, or delete it.`
+			);
+		}
+
+		await FSP.writeFile(npmrcPath, `${header}${registry.toNpmrc()}`, {mode: 0o600});
+	};
+
+	/**
+	 * Permissions declared by the registry version of a plugin that satisfies
+	 * the range. `null` when it doesn't declare any, `undefined` when they
+	 * couldn't be retrieved.
+	 */
+	protected fetchPermissions = async (pluginId: string, range = 'latest') => {
+		try {
+			const permissions = (await registry.manifest(pluginId, range)).drovp?.permissions;
+			if (permissions == null) return null;
+			if (validatePluginPermissions(permissions)) return permissions;
+		} catch (error) {
+			console.error(`Plugin "${pluginId}" permissions retrieval error:`, error);
+		}
+	};
+
+	/**
+	 * Records permissions user approved, so that changes in future versions
+	 * can be reported.
+	 */
+	grantPermissions = async (pluginId: string, permissions: PluginPermissions | null) => {
+		action(() => {
+			this.grantedPermissions.edit((granted) => granted.set(pluginId, serializePluginPermissions(permissions)));
+		});
+		await this.saveGrantedPermissions();
+	};
+
+	revokePermissions = async (pluginId: string) => {
+		if (!this.grantedPermissions().has(pluginId)) return;
+		action(() => this.grantedPermissions.edit((granted) => granted.delete(pluginId)));
+		await this.saveGrantedPermissions();
+	};
+
+	protected saveGrantedPermissions = async () => {
+		try {
+			const granted = Object.fromEntries(this.grantedPermissions());
+			await outputFile(this.permissionsPath, JSON.stringify(granted, null, 2));
+		} catch (error) {
+			this.store.events
+				.create({
+					variant: 'danger',
+					title: `Plugin permissions error`,
+					message: `Couldn't save approved plugin permissions.`,
+					details: eem(error),
+				})
+				.open();
+		}
+	};
+
+	/**
+	 * Installs plugins from tarballs, or local git checkouts.
+	 */
+	installLocalMaybe = async (paths: string[]) => {
+		const {payload: confirmed} = await this.store.modals.confirm({
+			variant: 'warning',
+			title: paths.length > 1 ? `Install ${paths.length} local plugins?` : `Install local plugin?`,
+			message: `Plugins have full access to your system, only install plugins from sources you trust.`,
+			details: paths.join('\n'),
+		});
+		if (confirmed) await this.installLocal(paths);
+	};
+
+	installLocal = async (paths: string[]) => {
+		const installIds: string[] = [];
+
+		for (const path of paths) {
+			try {
+				installIds.push(
+					await resolveLocalPluginSource(this.path, path, (message) => {
+						this.store.events.create({variant: 'warning', title: `Local plugin install`, message});
+					})
+				);
+			} catch (error) {
+				this.store.events
+					.create({
+						variant: 'danger',
+						title: `Local plugin install error`,
+						message: `Can't install plugin from "${path}".`,
+						details: eem(error),
+					})
+					.open();
+			}
+		}
+
+		if (installIds.length > 0) await this.install(installIds);
+	};
+
+	/**
+	 * Records exact versions and integrity hashes of installed plugins.
+	 */
+	updateLockfile = async () => {
+		try {
+			const lockfile = await createPluginsLockfile(this.path);
+			await outputFile(this.lockfilePath, JSON.stringify(lockfile, null, 2));
+		} catch (error) {
+			this.store.events.create({
+				variant: 'danger',
+				title: `Plugins lockfile error`,
+				message: `Couldn't update plugins lockfile.`,
+				details: eem(error),
+			});
+		}
+	};
+
+	exportLockfile = async () => {
+		const {canceled, filePath} = (await ipcRenderer.invoke('show-save-dialog', {
+			defaultPath: `${manifest.name}-plugins-lock.json`,
+			filters: [{name: 'JSON', extensions: ['json']}],
+		})) as Electron.SaveDialogReturnValue;
+
+		if (canceled || !filePath) return;
+
+		try {
+			const lockfile = await createPluginsLockfile(this.path);
+			await outputFile(filePath, JSON.stringify(lockfile, null, 2));
+		} catch (error) {
+			this.store.events
+				.create({variant: 'danger', title: `Plugins lockfile export error`, message: eem(error)})
+				.open();
+		}
+	};
+
+	/**
+	 * Installs exact versions of plugins from a lockfile, and uninstalls
+	 * registry plugins that are not in it. Local development plugins are left
+	 * alone. Resulting integrity hashes are compared to the locked ones.
+	 */
+	reproduceMaybe = async (lockfilePath?: string) => {
+		if (!lockfilePath) {
+			const {canceled, filePaths} = (await ipcRenderer.invoke('show-open-dialog', {
+				properties: ['openFile'],
+				filters: [{name: 'JSON', extensions: ['json']}],
+			})) as Electron.OpenDialogReturnValue;
+			if (canceled || !filePaths[0]) return;
+			lockfilePath = filePaths[0];
+		}
+
+		let lockfile: unknown;
+		try {
+			lockfile = await readJson(lockfilePath);
+			validatePluginsLockfile(lockfile);
+		} catch (error) {
+			this.store.events.create({variant: 'danger', title: `Plugins lockfile error`, message: eem(error)}).open();
+			return;
+		}
+
+		const locks = Object.entries((lockfile as PluginsLockfile).plugins);
+		const installIds: string[] = [];
+		const missing: string[] = [];
+
+		for (const [name, lock] of locks) {
+			const plugin = this.byId().get(name);
+			if (plugin && !plugin.isLocal && plugin.version === lock.version) continue;
+			const installId = getLockedInstallId(name, lock);
+			const missingPath = await getMissingLocalSource(this.path, installId);
+			if (missingPath) missing.push(`${name}: ${missingPath}`);
+			else installIds.push(installId);
+		}
+
+		const lockedNames = new Set(locks.map(([name]) => name));
+		const extraNames = this.all()
+			.filter((plugin) => !plugin.isLocal && !lockedNames.has(plugin.name))
+			.map((plugin) => plugin.name);
+
+		if (installIds.length === 0 && extraNames.length === 0) {
+			this.store.modals.alert({
+				variant: missing.length > 0 ? 'warning' : 'success',
+				title: `Plugins match the lockfile`,
+				message: missing.length > 0 ? `Except plugins with local sources missing on this machine:` : undefined,
+				details: missing.length > 0 ? missing.join('\n') : undefined,
+			});
+			return;
+		}
+
+		const details: string[] = [];
+		if (installIds.length > 0) details.push(`Install:\n- ${installIds.join('\n- ')}`);
+		if (extraNames.length > 0) details.push(`Uninstall:\n- ${extraNames.join('\n- ')}`);
+		if (missing.length > 0) details.push(`Skip, local source is missing:\n- ${missing.join('\n- ')}`);
+
+		const {payload: confirmed} = await this.store.modals.confirm({
+			variant: 'warning',
+			title: `Reproduce plugins from lockfile?`,
+			message: `Plugins will be installed, and uninstalled to match the lockfile.`,
+			details: details.join('\n\n'),
+		});
+
+		if (!confirmed) return;
+
+		const staging = this.store.staging.start({
+			title: `Reproducing plugins from lockfile`,
+			target: 'plugins',
+			action: 'install',
+			ids: [...installIds, ...extraNames],
+		});
+
+		for (const name of extraNames) await staging.substage((substage) => this.uninstallNpm(name, substage));
+		if (installIds.length > 0) {
+			await staging.substage((substage) => this.install(installIds, substage, false, true));
+		}
+
+		// Verify integrity
+		const current = await createPluginsLockfile(this.path);
+		const mismatches: string[] = [];
+
+		for (const [name, lock] of locks) {
+			const installed = current.plugins[name];
+			if (!installed) {
+				if (!missing.some((line) => line.startsWith(`${name}:`))) mismatches.push(`${name}: not installed`);
+			} else if (installed.version !== lock.version) {
+				mismatches.push(`${name}: version ${installed.version} instead of ${lock.version}`);
+			} else if (lock.integrity && installed.integrity && lock.integrity !== installed.integrity) {
+				mismatches.push(`${name}: integrity ${installed.integrity} instead of ${lock.integrity}`);
+			}
+		}
+
+		if (mismatches.length > 0) {
+			staging.error(`Plugins don't match the lockfile:\n- ${mismatches.join('\n- ')}`);
+			this.store.app.showError({
+				title: `Plugins lockfile mismatch`,
+				message: `Some plugins don't match the lockfile.`,
+				details: mismatches.join('\n'),
+			});
+		}
+
+		staging.done();
+	};
+
 	checkForUpdates = promiseThrottle(async () => {
 		await Promise.all(this.all().map((plugin) => plugin.checkForUpdates()));
 		const outdatedPlugins = this.all().filter((plugin) => plugin.updateAvailable());
@@ -1106,7 +1575,251 @@ export class Plugins {
 
 		if (installedPluginIds.length === 0) return;
 
-		await this.install(installedPluginIds, substage, skipAppUpdateCheck);
+		// Pinned plugins update to the version found by update check, or the
+		// highest one satisfying the pin
+		const installIds = installedPluginIds.map((id) => {
+			const pin = this.pins().get(id);
+			return pin ? `${id}@${byId.get(id)!.updateAvailable() || pin}` : id;
+		});
+		// Unpinned plugins are always updated to the latest version explicitly,
+		// so saving them exactly along with pinned ones doesn't hold them back
+		const saveExact = installedPluginIds.some((id) => this.pins().has(id));
+		const hadIssues = new Set(installedPluginIds.filter((id) => byId.get(id)!.issues().length > 0));
+		const descriptor = {
+			title:
+				installedPluginIds.length > 1
+					? `Updating ${installedPluginIds.length} plugins`
+					: `Updating ${installedPluginIds[0]}`,
+			target: 'plugins' as const,
+			action: 'install' as const,
+			ids: installedPluginIds,
+		};
+		const staging = substage?.(descriptor) || this.store.staging.start(descriptor);
+		const backedUpIds = await this.backupPlugins(installedPluginIds, staging);
+		const isInstalled = await staging.substage((substage) =>
+			this.install(installIds, substage, skipAppUpdateCheck, saveExact)
+		);
+
+		// Offer rollback when update failed, or introduced new issues
+		for (const id of backedUpIds) {
+			const plugin = this.byId().get(id);
+			const hasNewIssues = plugin ? plugin.issues().length > 0 && !hadIssues.has(id) : true;
+			if (isInstalled && !hasNewIssues) continue;
+			const backup = this.backups().get(id)!;
+			this.store.events
+				.create({
+					variant: 'danger',
+					title: `Plugin update failed`,
+					message: `Plugin "${id}" ${
+						isInstalled ? 'has new issues after the update' : "couldn't be updated"
+					}. Version ${backup.version} it had before can be restored from backup.`,
+					actions: [
+						{
+							variant: 'success',
+							icon: 'undo',
+							title: `Rollback to ${backup.version}`,
+							disableWhenStaging: true,
+							action: () => this.rollback(id),
+						},
+					],
+				})
+				.open();
+		}
+
+		staging.done();
+	};
+
+	/**
+	 * Backs up directories of installed registry plugins, so that they can be
+	 * rolled back. Returns ids of plugins that were backed up.
+	 */
+	protected backupPlugins = async (pluginIds: string[], staging: Staging) => {
+		const backedUpIds: string[] = [];
+
+		for (const id of pluginIds) {
+			const plugin = this.byId().get(id);
+			if (!plugin || plugin.isLocal || plugin.isExternal) continue;
+
+			try {
+				const backup = await createPluginBackup(this.backupsPath, id, plugin.version, plugin.path);
+				action(() => this.backups.edit((backups) => backups.set(id, backup)));
+				backedUpIds.push(id);
+			} catch (error) {
+				staging.log(`couldn't back up plugin "${id}": ${eem(error)}`);
+			}
+		}
+
+		return backedUpIds;
+	};
+
+	protected deleteBackup = async (pluginId: string) => {
+		if (!this.backups().has(pluginId)) return;
+
+		try {
+			await deletePluginBackup(this.backupsPath, pluginId);
+		} catch (error) {
+			console.error(`Plugin "${pluginId}" backup delete error:`, error);
+		}
+
+		action(() => this.backups.edit((backups) => backups.delete(pluginId)));
+	};
+
+	/**
+	 * Reinstalls plugin's backed up version. When npm can't install it, for
+	 * example when offline, backed up directory is restored in its place.
+	 */
+	rollback = async (pluginId: string) => {
+		const backup = this.backups().get(pluginId);
+
+		if (!backup) {
+			this.store.events
+				.create({title: `Plugin rollback error`, message: `There is no backup of plugin "${pluginId}".`})
+				.open();
+			return;
+		}
+
+		const staging = this.store.staging.start({
+			title: `Rolling back ${pluginId} to ${backup.version}`,
+			target: 'plugins',
+			action: 'install',
+			ids: [pluginId],
+		});
+		const installId = `${pluginId}@${backup.version}`;
+
+		if (await staging.substage((substage) => this.install(installId, substage, true, true))) {
+			await this.deleteBackup(pluginId);
+		} else {
+			staging.log(`restoring backed up directory`);
+			const suspendWatching = this.isWatching();
+			if (suspendWatching) this.stopWatching();
+
+			try {
+				await restorePluginBackup(backup, Path.join(this.path, 'node_modules', pluginId));
+				this.store.events
+					.create({
+						variant: 'warning',
+						title: `Plugin restored from backup`,
+						message: `npm couldn't install "${installId}", so its backed up directory was restored instead. Plugins manifest still references the newer version, which npm might reinstall during future installs.`,
+					})
+					.open();
+			} catch (error) {
+				staging.error(eem(error));
+				this.store.app.showError({
+					title: `Plugin rollback error`,
+					message: `Couldn't restore backup of plugin "${pluginId}".`,
+					details: eem(error),
+				});
+			}
+
+			await staging.substage((substage) => this.reload(substage));
+			if (suspendWatching) this.startWatching();
+		}
+
+		staging.done();
+	};
+
+	/**
+	 * Asks for a version range to pin plugin to. Empty range unpins it.
+	 */
+	pinMaybe = async (pluginId: string) => {
+		const {canceled, payload} = await this.store.modals.prompt(
+			{
+				title: `Pin ${pluginId} version`,
+				message: `Updates will only install the highest version satisfying the range, such as <code>1.2.3</code>, <code>^1.2.0</code>, <code>~1.2.0</code>, or <code>1.x</code>. Leave empty to unpin.`,
+			},
+			{
+				default: this.pins().get(pluginId) || '',
+				validator: (value) => !value.trim() || isValidVersionRange(value.trim()),
+			}
+		);
+
+		if (!canceled) await this.pin(pluginId, payload.trim() || null);
+	};
+
+	/**
+	 * Sets or removes version range plugin is pinned to, and checks for
+	 * updates again, as the one found before might not satisfy it.
+	 */
+	pin = async (pluginId: string, range: string | null) => {
+		if (range && !isValidVersionRange(range)) throw new Error(`Invalid version range "${range}".`);
+
+		action(() => {
+			this.pins.edit((pins) => {
+				if (range) pins.set(pluginId, range);
+				else pins.delete(pluginId);
+			});
+			this.byId().get(pluginId)?.updateAvailable(false);
+		});
+
+		try {
+			await outputFile(this.pinsPath, JSON.stringify(Object.fromEntries(this.pins()), null, 2));
+		} catch (error) {
+			this.store.events
+				.create({
+					variant: 'danger',
+					title: `Plugin pins error`,
+					message: `Couldn't save plugin version pins.`,
+					details: eem(error),
+				})
+				.open();
+		}
+
+		await this.byId().get(pluginId)?.checkForUpdates();
+	};
+
+	/**
+	 * Confirms installing a specific version, and offers to pin to it when
+	 * plugin's pin doesn't already allow it, so that updates don't undo it.
+	 */
+	installVersionMaybe = async (pluginId: string, version: string) => {
+		const pin = this.pins().get(pluginId);
+		const isPinned = pin != null && satisfiesVersionRange(version, pin);
+		const actions: ModalActionLoose[] = [
+			{icon: 'x', title: 'Cancel', muted: true, focused: true, cancels: true, payload: false},
+			{icon: 'install', title: 'Install', disableWhenStaging: true, payload: 'install'},
+		];
+		let message = `Current version will be backed up, and can be rolled back to.`;
+
+		if (!isPinned) {
+			actions.push({
+				variant: 'success',
+				icon: 'tag',
+				title: 'Install & pin',
+				disableWhenStaging: true,
+				payload: 'pin',
+			});
+			message += pin
+				? `\n\nVersion doesn't satisfy the current pin <code>${pin}</code>.`
+				: `\n\nPlugin is not pinned, so updates will bring it back to the latest version.`;
+		}
+
+		const {canceled, payload} = await this.store.modals.create<'install' | 'pin' | false>({
+			title: `Install ${pluginId}@${version}?`,
+			message,
+			actions,
+		}).promise;
+
+		if (canceled || !payload) return;
+
+		await this.installVersion(pluginId, version);
+		if (payload === 'pin') await this.pin(pluginId, version);
+	};
+
+	/**
+	 * Installs a specific, usually earlier, version of a registry plugin,
+	 * backing up the current one.
+	 */
+	installVersion = async (pluginId: string, version: string) => {
+		const staging = this.store.staging.start({
+			title: `Installing ${pluginId}@${version}`,
+			target: 'plugins',
+			action: 'install',
+			ids: [pluginId],
+		});
+
+		await this.backupPlugins([pluginId], staging);
+		await staging.substage((substage) => this.install(`${pluginId}@${version}`, substage, false, true));
+		staging.done();
 	};
 
 	create = async (props: CreatePluginTemplateProps) => {
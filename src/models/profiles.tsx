@@ -24,11 +24,23 @@ import {
 	getOptionsDifference,
 } from 'lib/utils';
 import {positionSignal} from 'lib/signals';
+import {WEEK_DAYS, parseTimeRange, isValidTimeRange, getScheduleOpening, TimeRange} from 'lib/schedule';
 import {SetRequired, SetOptional} from 'type-fest';
 import type {Store} from 'models/store';
-import type {Item, ItemDirectory, OptionsData} from '@drovp/types';
-import {NumberSignal, AnyOptionsSignals, createOptions} from 'models/options';
-import {ProfileOutputs} from 'models/items';
+import type {Item, ItemDirectory, OptionsData, OptionSelect} from '@drovp/types';
+import {
+	NumberSignal,
+	BooleanSignal,
+	StringSignal,
+	ListSignal,
+	SelectSignal,
+	AnyOptionsSignals,
+	createOptions,
+} from 'models/options';
+import {ProfileOutputs, OUTPUTS_DRAG_TYPE, outputToInputItem} from 'models/items';
+import {ProfileWatchers} from 'models/watchers';
+import {ProfileOutputLog} from 'models/outputLog';
+import {ProfileHooks} from 'models/hooks';
 import {Operation, OperationPayload, PreparatorMeta} from 'models/operations';
 import type {Issue} from 'components/Issues';
 import {showOptionsTweaker} from 'components/OptionsTweaker';
@@ -44,6 +56,7 @@ export interface SerializedProfile {
 	options?: OptionsData;
 	version: string;
 	position?: Partial<ProfileGridPosition>;
+	chainTo?: string;
 }
 
 export interface ProfileGridPosition {
@@ -64,6 +77,7 @@ export interface ProfileExportData {
 	source: string;
 	version: string;
 	options?: {[key: string]: any};
+	chainTo?: string;
 }
 
 export enum BatchItem {
@@ -74,8 +88,289 @@ export enum BatchItem {
 
 export type AddingListener = (count: number) => void;
 
-type ProfileCommonOptionsData = {maxThreads: number};
-type ProfileCommonOptions = {maxThreads: NumberSignal};
+type ProfileCommonOptionsData = {
+	maxThreads: number;
+	priority: number;
+	watchPaths: string[];
+	watchInclude: string[];
+	watchExclude: string[];
+	watchRecursive: boolean;
+	watchDebounce: number;
+	watchIgnoreOutputs: boolean;
+	retryCount: number;
+	retryDelay: number;
+	retryBackoff: number;
+	retryOnError: boolean;
+	retryOnCrash: boolean;
+	retryOnTimeout: boolean;
+	timeout: number;
+	inactivityTimeout: number;
+	schedule: boolean;
+	scheduleDays: string[];
+	scheduleRanges: string[];
+	outputLog: boolean;
+	outputLogPath: string;
+	outputLogMaxSize: number;
+	outputLogMaxFiles: number;
+	notifyBatch: boolean;
+	notifyBatchMinDuration: number;
+	hooks: boolean;
+	hookBatchDone: string;
+	hookOperationError: string;
+	hookUrl: string;
+	hookTimeout: number;
+};
+type ProfileCommonOptions = {
+	maxThreads: NumberSignal;
+	priority: NumberSignal;
+	watchPaths: ListSignal;
+	watchInclude: ListSignal;
+	watchExclude: ListSignal;
+	watchRecursive: BooleanSignal;
+	watchDebounce: NumberSignal;
+	watchIgnoreOutputs: BooleanSignal;
+	retryCount: NumberSignal;
+	retryDelay: NumberSignal;
+	retryBackoff: NumberSignal;
+	retryOnError: BooleanSignal;
+	retryOnCrash: BooleanSignal;
+	retryOnTimeout: BooleanSignal;
+	timeout: NumberSignal;
+	inactivityTimeout: NumberSignal;
+	schedule: BooleanSignal;
+	scheduleDays: SelectSignal<OptionSelect & {default: string[]}>;
+	scheduleRanges: ListSignal;
+	outputLog: BooleanSignal;
+	outputLogPath: StringSignal;
+	outputLogMaxSize: NumberSignal;
+	outputLogMaxFiles: NumberSignal;
+	notifyBatch: BooleanSignal;
+	notifyBatchMinDuration: NumberSignal;
+	hooks: BooleanSignal;
+	hookBatchDone: StringSignal;
+	hookOperationError: StringSignal;
+	hookUrl: StringSignal;
+	hookTimeout: NumberSignal;
+};
+
+export const PROFILE_WATCH_OPTIONS_SCHEMA = [
+	{
+		type: 'list' as const,
+		name: 'watchPaths' as const,
+		title: 'Directories',
+		default: [] as string[],
+		schema: {type: 'path' as const, kind: 'directory' as const},
+		description: `Directories to watch. Files that appear in them are dropped into this profile.`,
+	},
+	{
+		type: 'list' as const,
+		name: 'watchInclude' as const,
+		title: 'Include',
+		default: [] as string[],
+		schema: {type: 'string' as const},
+		description: `Glob patterns of files to drop, such as <code>*.{jpg,png}</code>. Patterns without a slash match file names at any depth. Empty list includes all files.`,
+	},
+	{
+		type: 'list' as const,
+		name: 'watchExclude' as const,
+		title: 'Exclude',
+		default: [] as string[],
+		schema: {type: 'string' as const},
+		description: `Glob patterns of files to ignore.`,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'watchRecursive' as const,
+		title: 'Recursive',
+		default: false,
+		description: `Also watch all subdirectories.`,
+	},
+	{
+		type: 'number' as const,
+		name: 'watchDebounce' as const,
+		title: 'Debounce',
+		default: 1000,
+		min: 100,
+		step: 100,
+		hint: 'ms',
+		description: `File is dropped once its size and modification time didn't change for this long.`,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'watchIgnoreOutputs' as const,
+		title: 'Ignore own outputs',
+		default: true,
+		description: `Ignore files produced by this profile's operations, so that outputs saved next to inputs don't loop back in.`,
+	},
+];
+
+export const PROFILE_RETRY_OPTIONS_SCHEMA = [
+	{
+		type: 'number' as const,
+		name: 'retryDelay' as const,
+		title: 'Delay',
+		default: 5,
+		min: 0,
+		step: 1,
+		hint: 's',
+		description: `Time to wait before the first retry.`,
+	},
+	{
+		type: 'number' as const,
+		name: 'retryBackoff' as const,
+		title: 'Backoff',
+		default: 2,
+		min: 1,
+		max: 10,
+		step: 0.1,
+		hint: '×',
+		description: `Delay multiplier applied on each subsequent retry.`,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'retryOnError' as const,
+		title: 'On error output',
+		default: true,
+		description: `Retry when processor emits an error.`,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'retryOnCrash' as const,
+		title: 'On thread crash',
+		default: true,
+		description: `Retry when thread process crashes, or fails to start.`,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'retryOnTimeout' as const,
+		title: 'On timeout',
+		default: false,
+		description: `Retry when operation is killed for exceeding its time limits.`,
+	},
+];
+
+export const PROFILE_TIMEOUT_OPTIONS_SCHEMA = [
+	{
+		type: 'number' as const,
+		name: 'timeout' as const,
+		title: 'Time limit',
+		default: 0,
+		min: 0,
+		step: 1,
+		hint: (value: number | null) => (value ? formatDuration(value * 1000) : 'off'),
+		description: `Max number of seconds an operation can run for. <code>0</code> disables the limit.`,
+	},
+	{
+		type: 'number' as const,
+		name: 'inactivityTimeout' as const,
+		title: 'Inactivity limit',
+		default: 0,
+		min: 0,
+		step: 1,
+		hint: (value: number | null) => (value ? formatDuration(value * 1000) : 'off'),
+		description: `Max number of seconds an operation can go without sending any progress, log, or stage update. <code>0</code> disables the limit.`,
+	},
+];
+
+export const PROFILE_SCHEDULE_OPTIONS_SCHEMA = [
+	{
+		type: 'select' as const,
+		name: 'scheduleDays' as const,
+		title: 'Days',
+		options: WEEK_DAYS,
+		default: Object.keys(WEEK_DAYS),
+		description: `Days of the week during which operations can start.`,
+	},
+	{
+		type: 'list' as const,
+		name: 'scheduleRanges' as const,
+		title: 'Time ranges',
+		default: ['22:00-06:00'],
+		schema: {type: 'string' as const, validator: isValidTimeRange},
+		description: `Time ranges in <code>HH:MM-HH:MM</code> format during which operations can start. Ranges ending before they start continue into the next day. Empty list means whole days.<br/>Operations that already started are not interrupted when the range ends.`,
+	},
+];
+
+export const PROFILE_OUTPUT_LOG_OPTIONS_SCHEMA = [
+	{
+		type: 'path' as const,
+		name: 'outputLogPath' as const,
+		title: 'File',
+		kind: 'file' as const,
+		default: '',
+		description: `Path to the log file. Leave empty to log into <code>output-logs/{profileId}.jsonl</code> in the app's data directory.`,
+	},
+	{
+		type: 'number' as const,
+		name: 'outputLogMaxSize' as const,
+		title: 'Max size',
+		default: 10,
+		min: 0,
+		step: 1,
+		hint: 'MB',
+		description: `Log file is rotated when it would grow over this size. <code>0</code> disables rotation.`,
+	},
+	{
+		type: 'number' as const,
+		name: 'outputLogMaxFiles' as const,
+		title: 'Rotated files',
+		default: 5,
+		min: 0,
+		max: 100,
+		step: 1,
+		description: `How many rotated log files to keep. The oldest one is deleted on each rotation.`,
+	},
+];
+
+export const PROFILE_NOTIFY_OPTIONS_SCHEMA = [
+	{
+		type: 'number' as const,
+		name: 'notifyBatchMinDuration' as const,
+		title: 'Min duration',
+		default: 60,
+		min: 0,
+		step: 1,
+		hint: 'seconds',
+		description: `Notify only about batches that took at least this long, measured from when their first item was queued.`,
+	},
+];
+
+export const PROFILE_HOOKS_OPTIONS_SCHEMA = [
+	{
+		type: 'string' as const,
+		name: 'hookBatchDone' as const,
+		title: 'On batch done',
+		default: '',
+		rows: 2,
+		description: `Command to run when profile's batch finishes.<br/>Tokens: <code>{profileId}</code>, <code>{profileTitle}</code>, <code>{completed}</code>, <code>{errors}</code>, <code>{duration}</code>, <code>{outputs}</code> (space separated output paths). Values are shell quoted. The whole payload is also available as JSON in <code>DROVP_HOOK_PAYLOAD</code> environment variable.`,
+	},
+	{
+		type: 'string' as const,
+		name: 'hookOperationError' as const,
+		title: 'On operation error',
+		default: '',
+		rows: 2,
+		description: `Command to run when an operation ends with an error.<br/>Tokens: same as above, plus <code>{operationId}</code> and <code>{error}</code> (the first error message).`,
+	},
+	{
+		type: 'string' as const,
+		name: 'hookUrl' as const,
+		title: 'Webhook URL',
+		default: '',
+		description: `URL to send a <code>POST</code> request with JSON payload to on both events. Payload has an <code>event</code> property with either <code>batchDone</code> or <code>operationError</code> value.`,
+	},
+	{
+		type: 'number' as const,
+		name: 'hookTimeout' as const,
+		title: 'Timeout',
+		default: 60,
+		min: 0,
+		step: 1,
+		hint: 'seconds',
+		description: `Commands running, and requests taking longer than this are killed. <code>0</code> disables the timeout.`,
+	},
+];
+
 export const PROFILE_COMMON_OPTIONS_SCHEMA = [
 	{
 		type: 'number' as const,
@@ -86,6 +381,49 @@ export const PROFILE_COMMON_OPTIONS_SCHEMA = [
 		step: 1,
 		softMax: true,
 	},
+	{
+		type: 'number' as const,
+		name: 'priority' as const,
+		default: 0,
+		min: -10,
+		max: 10,
+		step: 1,
+	},
+	{
+		type: 'number' as const,
+		name: 'retryCount' as const,
+		default: 0,
+		min: 0,
+		max: 10,
+		step: 1,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'schedule' as const,
+		default: false,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'outputLog' as const,
+		default: false,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'notifyBatch' as const,
+		default: false,
+	},
+	{
+		type: 'boolean' as const,
+		name: 'hooks' as const,
+		default: false,
+	},
+	...PROFILE_RETRY_OPTIONS_SCHEMA,
+	...PROFILE_TIMEOUT_OPTIONS_SCHEMA,
+	...PROFILE_SCHEDULE_OPTIONS_SCHEMA,
+	...PROFILE_WATCH_OPTIONS_SCHEMA,
+	...PROFILE_OUTPUT_LOG_OPTIONS_SCHEMA,
+	...PROFILE_NOTIFY_OPTIONS_SCHEMA,
+	...PROFILE_HOOKS_OPTIONS_SCHEMA,
 ];
 
 /**
@@ -96,8 +434,12 @@ export const PROFILE_COMMON_OPTIONS_SCHEMA = [
 export class Batch {
 	items = signal<BatchItem[]>([]);
 	index = signal<number>(0);
+	started = signal<number | null>(null); // when the first item of the batch was queued
 	completed = signal<number>(0);
 	errors = signal<number>(0);
+	// Total sizes of file inputs and outputs produced from them
+	inputSize = signal<number>(0);
+	outputSize = signal<number>(0);
 
 	reset = createAction(() => {
 		this.items.edit((items) => {
@@ -105,12 +447,17 @@ export class Batch {
 			items.push();
 		});
 		this.index(0);
+		this.started(null);
 		this.completed(0);
 		this.errors(0);
+		this.inputSize(0);
+		this.outputSize(0);
 	});
 
 	progress = computed(() => (this.items().length > 0 ? this.index() / this.items().length : undefined));
 
+	isDone = () => this.items().length > 0 && this.index() >= this.items().length;
+
 	/**
 	 * Bump the size of the batch.
 	 */
@@ -119,6 +466,7 @@ export class Batch {
 
 		// Reset when incrementing a finished batch
 		if (this.items().length > 0 && this.items().length <= currentIndex) this.reset();
+		if (this.started() == null) this.started(Date.now());
 
 		this.items.edit((items) => {
 			for (let i = 0; i < amount; i++) items.push(BatchItem.pending);
@@ -147,6 +495,12 @@ export class Batch {
 		else this.completed(this.completed() + 1);
 	});
 
+	addSizes = createAction((inputSize: number, outputSize: number) => {
+		if (inputSize === 0 && outputSize === 0) return;
+		this.inputSize(this.inputSize() + inputSize);
+		this.outputSize(this.outputSize() + outputSize);
+	});
+
 	/**
 	 * Removes all done batch items from the start of the batch.
 	 */
@@ -182,13 +536,23 @@ export class Profile {
 	preparationQueue: Operation[] = [];
 	preparationPromise: Promise<void> | undefined;
 	outputs: ProfileOutputs;
+	watchers: ProfileWatchers;
+	outputLog: ProfileOutputLog;
+	hooks: ProfileHooks;
 	batch = new Batch();
 	// Options used by the app
 	commonOptions: ProfileCommonOptions;
 	// Options sent to processors (`options()` is a computed property below)
 	optionsData = signal<OptionsData | undefined>(undefined);
 	optionsDataReactionDisposer: Disposer;
+	scheduleReactionDisposer: Disposer;
+	// Set by worker to when schedule opens while there are operations waiting for it
+	scheduleWaitingUntil = signal<number | null>(null);
+	// Lets operations start outside of schedule until profile runs out of them
+	scheduleOverride = signal<boolean>(false);
 	version: Signal<string>;
+	// ID of a profile that receives outputs of this profile's operations
+	chainTo = signal<string | null>(null);
 
 	// Adding jobs facilitate not freezing the app when adding huge number of items.
 	// These numbers are used to display a real time counter of thus far added items into a profile.
@@ -205,6 +569,9 @@ export class Profile {
 		this.processorId = data.processorId;
 		this.version = signal(data.version);
 		this.outputs = new ProfileOutputs(store.outputs, this);
+		this.watchers = new ProfileWatchers(this, store);
+		this.outputLog = new ProfileOutputLog(this, store);
+		this.hooks = new ProfileHooks(this, store);
 		this.createdAt = parseInt(`${data.createdAt}`, 10) || Date.now();
 
 		let pluginName: string;
@@ -219,6 +586,7 @@ export class Profile {
 		this.processorName = processorName;
 		this.pluginMeta = serialize.pluginNameMeta(pluginName);
 		this.title(typeof data.title === 'string' ? data.title : '');
+		this.chainTo(typeof data.chainTo === 'string' ? data.chainTo : null);
 
 		// Ensure profile has a valid grid position
 
@@ -237,17 +605,25 @@ export class Profile {
 			}
 		});
 
+		// Multi-select values are arrays, which primitive mapping types as lists
 		this.commonOptions = createOptions<ProfileCommonOptionsData>(
 			PROFILE_COMMON_OPTIONS_SCHEMA,
 			data.commonOptions
-		) as ProfileCommonOptions;
+		) as unknown as ProfileCommonOptions;
+
+		// Schedule changes might allow waiting operations to start
+		this.scheduleReactionDisposer = reaction(
+			() => [this.commonOptions.schedule(), this.commonOptions.scheduleDays(), this.scheduleRanges()],
+			() => this.store.worker.requestFillThreads()
+		);
 	}
 
 	destroy = createAction(() => {
 		this.optionsDataReactionDisposer();
+		this.scheduleReactionDisposer();
 
 		// This order is important!
-		// this.watchers.stop();
+		this.watchers.stop();
 		this.clearQueue();
 		for (const pendingOperation of this.pending()) {
 			pendingOperation.stop('Operation killed due to profile being destroyed.');
@@ -281,6 +657,51 @@ export class Profile {
 
 	plugin = computed(() => this.store.plugins.byId().get(this.pluginMeta.name));
 
+	chainTarget = computed(() => {
+		const id = this.chainTo();
+		return id ? this.store.profiles.byId().get(id) : undefined;
+	});
+
+	/**
+	 * List of all profiles downstream of this one. Stops at the first profile
+	 * that is already in the list, so a cycle in stored data can't hang us.
+	 */
+	chain = computed(() => {
+		const chain: Profile[] = [];
+		let target = this.chainTarget();
+		while (target && target !== this && !chain.includes(target)) {
+			chain.push(target);
+			target = target.chainTarget();
+		}
+		return chain;
+	});
+
+	/**
+	 * True when the chain loops back into itself.
+	 */
+	isChainCyclic = computed(() => {
+		const chain = this.chain();
+		const last = chain.length > 0 ? chain[chain.length - 1]! : this;
+		return last.chainTarget() != null;
+	});
+
+	/**
+	 * Checks if outputs of this profile can be piped into the passed profile
+	 * without creating a cycle.
+	 */
+	canChainTo = (profile: Profile) => profile !== this && !profile.chain().includes(this);
+
+	setChainTo = createAction((id: string | null) => {
+		if (id != null) {
+			const profile = this.store.profiles.byId().get(id);
+			if (!profile) throw new Error(`Can't chain to profile "${id}", it doesn't exist.`);
+			if (!this.canChainTo(profile)) {
+				throw new Error(`Chaining to profile "${profile.displayTitle()}" would create a cycle.`);
+			}
+		}
+		this.chainTo(id);
+	});
+
 	humanThreadType = computed(() => {
 		const threadType = this.processor()?.config.threadType;
 		if (Array.isArray(threadType)) return threadType.join('+');
@@ -293,6 +714,43 @@ export class Profile {
 		return `${threadType}`;
 	});
 
+	/**
+	 * Human readable operation time limits, empty when there are none.
+	 */
+	humanTimeouts = computed(() => {
+		const timeout = this.commonOptions.timeout();
+		const inactivityTimeout = this.commonOptions.inactivityTimeout();
+		const limits: string[] = [];
+		if (timeout) limits.push(`time limit ${formatDuration(timeout * 1000)}`);
+		if (inactivityTimeout) limits.push(`inactivity limit ${formatDuration(inactivityTimeout * 1000)}`);
+		return limits;
+	});
+
+	scheduleRanges = computed(() =>
+		this.commonOptions
+			.scheduleRanges()
+			.map((range) => parseTimeRange(range()))
+			.filter((range): range is TimeRange => range != null)
+	);
+
+	/**
+	 * Returns `null` when profile's operations can start, or a timestamp of
+	 * when its schedule opens.
+	 */
+	getScheduleOpening = (time = Date.now()) => {
+		const {schedule, scheduleDays} = this.commonOptions;
+		if (!schedule.value || this.scheduleOverride.value) return null;
+		return getScheduleOpening(scheduleDays.value, this.scheduleRanges.value, time);
+	};
+
+	/**
+	 * Starts operations waiting for schedule right away.
+	 */
+	runNow = createAction(() => {
+		this.scheduleOverride(true);
+		this.store.worker.requestFillThreads();
+	});
+
 	/**
 	 * Processor.isReady() is necessary, because loading dependencies are not
 	 * part of issues, but they still are part of the isReady determination.
@@ -387,6 +845,7 @@ export class Profile {
 			version: this.version(),
 			options: this.optionsData(),
 			position: this.position(),
+			chainTo: this.chainTo() || undefined,
 		};
 	};
 
@@ -403,6 +862,7 @@ export class Profile {
 			options: this.store.settings.compactImportCodes()
 				? getOptionsDifference(fullOptionsData, this.processor()?.optionDefaults)
 				: fullOptionsData,
+			chainTo: this.chainTo() || undefined,
 		};
 	});
 
@@ -1051,7 +1511,8 @@ export class Profile {
 
 		const modifiers = idModifiers(event);
 		const droppedProfileId = event.dataTransfer.getData('profile');
-		const dropType = droppedProfileId ? 'profile' : undefined;
+		const droppedOutputIds = event.dataTransfer.getData(OUTPUTS_DRAG_TYPE);
+		const dropType = droppedProfileId ? 'profile' : droppedOutputIds ? 'outputs' : undefined;
 
 		if (!this.isReady() && dropType !== 'profile') {
 			this.store.events
@@ -1078,6 +1539,22 @@ export class Profile {
 						this.position(draggedPosition);
 					}
 					break;
+
+				// Output items dragged from outputs drawers
+				case 'outputs': {
+					let ids: unknown;
+					try {
+						ids = JSON.parse(droppedOutputIds);
+					} catch {}
+					if (!Array.isArray(ids)) return;
+					const items: Item[] = [];
+					for (const output of this.store.outputs.all()) {
+						const item = ids.includes(output.id) ? outputToInputItem(output) : null;
+						if (item) items.push(item);
+					}
+					if (items.length > 0) this.dropItems(items, {modifiers, action: 'drop'});
+					break;
+				}
 			}
 			return;
 		}
@@ -1113,6 +1590,7 @@ export class Profile {
 			options: toJS(this.optionsData),
 			version: this.version(),
 			position: this.position(),
+			chainTo: this.chainTo() || undefined,
 		};
 	}
 }
@@ -1533,10 +2011,15 @@ export class Profiles {
 			() => this.toJSON(),
 			debounce((data) => outputJson(this.storeFilePath, data, {space: 2}), 300)
 		);
+
+		// Watch folders
+		for (const profile of this.all()) profile.watchers.start();
 	};
 
 	stopWatching = () => {
 		this.changeReactionDisposer?.();
+		this.changeReactionDisposer = null;
+		for (const profile of this.all()) profile.watchers.stop();
 	};
 
 	load = createAction(async () => {
@@ -1617,9 +2100,26 @@ export class Profiles {
 		this.all.edit((all) => all.push(profile));
 		this.byId.edit((byId) => byId.set(profile.id, profile));
 
+		if (this.changeReactionDisposer) profile.watchers.start();
+
 		return profile;
 	});
 
+	/**
+	 * Profile that isn't added to the grid, used to hold restored operations
+	 * of profiles that no longer exist.
+	 */
+	createPlaceholder = (data: {id: string; processorId?: string; title?: string}) =>
+		new Profile(
+			{
+				...data,
+				processorId: data.processorId || 'unknown:unknown',
+				categoryId: this.store.settings.profileCategory(),
+				version: '0.0.0',
+			},
+			this.store
+		);
+
 	duplicate = createAction((profileId: string) => {
 		const profile = this.byId().get(profileId);
 		if (!profile) throw new Error(`Can't duplicate, profile "${profileId}" doesn't exist.`);
@@ -1,6 +1,14 @@
 import {createOptions, OptionsSignals} from 'models/options';
 
-const defaults = {outputsCategory: 'all'};
+const defaults = {
+	outputsCategory: 'all',
+	outputsSearch: '',
+	outputsProfile: '',
+	outputsFrom: '',
+	outputsTo: '',
+	outputsMinSize: '',
+	outputsMaxSize: '',
+};
 type OptionsData = typeof defaults;
 export const schema = [
 	{
@@ -8,6 +16,36 @@ export const schema = [
 		type: 'string' as const,
 		default: defaults.outputsCategory,
 	},
+	{
+		name: 'outputsSearch' as const,
+		type: 'string' as const,
+		default: defaults.outputsSearch,
+	},
+	{
+		name: 'outputsProfile' as const,
+		type: 'string' as const,
+		default: defaults.outputsProfile,
+	},
+	{
+		name: 'outputsFrom' as const,
+		type: 'string' as const,
+		default: defaults.outputsFrom,
+	},
+	{
+		name: 'outputsTo' as const,
+		type: 'string' as const,
+		default: defaults.outputsTo,
+	},
+	{
+		name: 'outputsMinSize' as const,
+		type: 'string' as const,
+		default: defaults.outputsMinSize,
+	},
+	{
+		name: 'outputsMaxSize' as const,
+		type: 'string' as const,
+		default: defaults.outputsMaxSize,
+	},
 ];
 
 export type Session = OptionsSignals<OptionsData>;
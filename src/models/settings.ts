@@ -178,6 +178,44 @@ export const schema = makeOptionsSchema<SerializedSettings>()([
 		title: 'Process priority',
 		description: `Priority to set for all operations' child processes. Might not work on all platforms.`,
 	},
+	{
+		name: 'maxConcurrentOperations',
+		type: 'number',
+		min: 0,
+		step: 1,
+		default: defaults.maxConcurrentOperations,
+		title: 'Max concurrent operations',
+		hint: (value) => (value === 0 ? '<em>unlimited</em>' : null),
+		description: `Max number of operations running at the same time across all profiles. Profiles' own max threads limits still apply. <code>0</code> means unlimited.`,
+	},
+	{
+		name: 'resourceGate',
+		type: 'boolean',
+		default: defaults.resourceGate,
+		title: 'Resource gate',
+		description: `Hold new operations while the system is under heavy load or running low on memory.`,
+	},
+	{
+		name: 'resourceGateMaxLoad',
+		type: 'number',
+		min: 0,
+		step: 0.1,
+		default: defaults.resourceGateMaxLoad,
+		title: 'Max CPU load',
+		description: `Max 1 minute load average per CPU core. <code>0</code> disables the check. Not available on Windows.`,
+		isHidden: (value: any, settings: any) => !settings.resourceGate,
+	},
+	{
+		name: 'resourceGateMinFreeMemory',
+		type: 'number',
+		min: 0,
+		step: 1,
+		default: defaults.resourceGateMinFreeMemory,
+		title: 'Min free memory',
+		hint: (value) => (value! > 0 ? formatSize(value! * 1024 * 1024) : '<em>disabled</em>'),
+		description: `Min amount of free memory in megabytes. <code>0</code> disables the check.`,
+		isHidden: (value: any, settings: any) => !settings.resourceGate,
+	},
 	{
 		name: 'operationsHistoryLimit',
 		type: 'number',
@@ -203,6 +241,39 @@ export const schema = makeOptionsSchema<SerializedSettings>()([
 		hint: (value) => formatSize(value!),
 		description: `Max number of characters a single operation log can contain.`,
 	},
+	{
+		name: 'persistOperations',
+		type: 'boolean',
+		default: defaults.persistOperations,
+		title: 'Persist operations',
+		description: `Save the queue and recent operations history, and restore them on next app start.`,
+	},
+	{
+		name: 'persistedHistoryLimit',
+		type: 'number',
+		min: 0,
+		default: defaults.persistedHistoryLimit,
+		title: 'Persisted history limit',
+		description: `Max number of completed operations to restore. Queued operations are always restored.`,
+		isHidden: (value: any, settings: any) => !settings.persistOperations,
+	},
+	{
+		name: 'restoredQueue',
+		type: 'select',
+		options: {ask: 'Ask', resume: 'Resume'},
+		default: defaults.restoredQueue,
+		title: 'Restored queue',
+		description: `Restored operations are held until their processors are ready. Then they either resume right away, or wait for you to confirm.`,
+		isHidden: (value: any, settings: any) => !settings.persistOperations,
+	},
+	{
+		name: 'pluginPermissions',
+		type: 'select',
+		options: {off: 'Off', declared: 'Declared', strict: 'Strict'},
+		default: defaults.pluginPermissions,
+		title: 'Enforce plugin permissions',
+		description: `Run processors with Node.js permission model, restricted to permissions their plugins declare. <b>Declared</b> restricts only plugins that declare permissions, <b>Strict</b> also restricts those that don't to their data directories. Requires Node.js 20 or newer. Network access is not restricted.`,
+	},
 	{
 		name: 'expandStagingLogs',
 		type: 'select',
@@ -231,6 +302,62 @@ export const schema = makeOptionsSchema<SerializedSettings>()([
 		isHidden: (value: any, settings: any) => !settings.developerMode,
 	},
 
+	{type: 'divider', title: 'HTTP API'},
+
+	{
+		name: 'apiEnabled',
+		type: 'boolean',
+		default: defaults.apiEnabled,
+		title: 'Enable API',
+		description: `Local HTTP/JSON API that allows other tools to drop items into profiles, and follow operations. Only accessible from this computer.`,
+	},
+	{
+		name: 'apiPort',
+		type: 'number',
+		min: 1024,
+		max: 65535,
+		step: 1,
+		default: defaults.apiPort,
+		title: 'Port',
+		description: (value) => `API is available at <code>http://127.0.0.1:${value}</code>.`,
+		isHidden: (value: any, settings: any) => !settings.apiEnabled,
+	},
+	{
+		name: 'apiToken',
+		type: 'string',
+		default: defaults.apiToken,
+		title: 'Token',
+		description: `Requests have to pass it in <code>Authorization: Bearer {token}</code> header. Generated automatically when empty.`,
+		isHidden: (value: any, settings: any) => !settings.apiEnabled,
+	},
+
+	{type: 'divider', title: 'Plugin registry'},
+
+	{
+		name: 'registryUrl',
+		type: 'string',
+		default: defaults.registryUrl,
+		title: 'Registry',
+		description: `npm registry used to search, check for updates, and install plugins. Can point to a private registry or a local mirror, such as Verdaccio.`,
+		validator: (value) => /^https?:\/\/\S+$/.test(value.trim()),
+	},
+	{
+		name: 'registryScopes',
+		type: 'list',
+		default: defaults.registryScopes,
+		schema: {type: 'string'},
+		title: 'Scopes',
+		description: `Registries for scoped packages, each in <code>@scope=https://registry.example.com</code> format.`,
+	},
+	{
+		name: 'registryTokens',
+		type: 'list',
+		default: defaults.registryTokens,
+		schema: {type: 'string'},
+		title: 'Auth tokens',
+		description: `Tokens for registries that require authentication, each in <code>https://registry.example.com=token</code> format. They are sent to matching registries, and passed to npm via <code>.npmrc</code> in plugins directory.`,
+	},
+
 	// Hidden persistent settings
 	{name: 'lastAppUpdatesCheckTime', type: 'number', default: defaults.lastAppUpdatesCheckTime, isHidden: true},
 	{name: 'lastNodeUpdatesCheckTime', type: 'number', default: defaults.lastNodeUpdatesCheckTime, isHidden: true},
@@ -0,0 +1,317 @@
+import {promises as FSP} from 'fs';
+import {signal, createAction} from 'statin';
+import {hashOptions} from 'lib/utils';
+import {outputFile, deletePath} from 'lib/fs';
+import {FileSpool} from 'lib/spool';
+import type {Store} from 'models/store';
+import type {Operation} from 'models/operations';
+
+/**
+ * Records older than this are dropped when statistics are loaded.
+ */
+const RETENTION = 90 * 24 * 60 * 60_000;
+
+export interface OperationRecord {
+	operation: string;
+	profile: string;
+	profileTitle: string;
+	processor: string;
+	created: number;
+	started: number;
+	ended: number;
+	wait: number | null; // time spent in queue, only known for the first run
+	inputs: number;
+	outputs: number;
+	inputSize: number;
+	outputSize: number;
+	error: boolean;
+	optionsHash: string;
+	options?: unknown; // only on the first record of each profile's options set
+}
+
+export type StatisticsGroupBy = 'profile' | 'processor' | 'options';
+
+export interface StatisticsGroup {
+	key: string;
+	title: string;
+	profile?: string; // set when all records in the group belong to the same profile
+	count: number;
+	errors: number;
+	errorRate: number;
+	inputs: number;
+	averageDuration: number;
+	medianDuration: number;
+	averageWait: number | null;
+	throughput: number; // input items per minute of active time
+	first: number;
+	last: number;
+	optionsHash?: string;
+}
+
+export interface HistogramBucket {
+	from: number;
+	to: number;
+	count: number;
+	errors: number;
+}
+
+/**
+ * Records a summary of every finished operation run into a JSONL file, which
+ * is used to build statistics that outlive the operations history.
+ */
+export class Statistics {
+	store: Store;
+	filePath: string;
+	records = signal<OperationRecord[]>([]);
+	options = new Map<string, unknown>(); // `${profileId}:${optionsHash}` -> options
+	protected spool: FileSpool | null = null;
+	protected lastOptionsHashes = new Map<string, string>(); // profileId -> last recorded options hash
+
+	constructor(filePath: string, store: Store) {
+		this.filePath = filePath;
+		this.store = store;
+	}
+
+	/**
+	 * Recording is opt-in so that headless runs don't write into user data.
+	 */
+	startRecording = () => {
+		if (this.spool) return;
+		const spool = new FileSpool(this.filePath);
+		this.spool = spool;
+		addEventListener('beforeunload', () => spool.flushSync());
+	};
+
+	record = createAction((operation: Operation) => {
+		const started = operation.started();
+		const ended = operation.ended();
+		if (!this.spool || started == null || ended == null) return;
+
+		const profile = operation.profile;
+		const options = operation.payload.options;
+		const optionsHash = hashOptions(options);
+		const sizes = operation.sizes();
+		const record: OperationRecord = {
+			operation: operation.id,
+			profile: profile.id,
+			profileTitle: profile.displayTitle(),
+			processor: profile.processorId,
+			created: operation.created(),
+			started,
+			ended,
+			wait: operation.runs() === 1 ? Math.max(0, started - operation.created()) : null,
+			inputs: operation.inputs.length,
+			outputs: operation.outputs().length,
+			inputSize: sizes?.inputSize ?? 0,
+			outputSize: sizes?.outputSize ?? 0,
+			error: operation.hasError(),
+			optionsHash,
+		};
+
+		if (this.lastOptionsHashes.get(profile.id) !== optionsHash) {
+			record.options = options;
+			this.lastOptionsHashes.set(profile.id, optionsHash);
+			this.options.set(`${profile.id}:${optionsHash}`, options);
+		}
+
+		this.records.edit((records) => records.push(record));
+		this.spool.write(`${JSON.stringify(record)}\n`);
+	});
+
+	/**
+	 * Loads records, and rewrites the file when some of them expired.
+	 */
+	load = async () => {
+		let contents: string;
+		try {
+			contents = await FSP.readFile(this.filePath, 'utf8');
+		} catch (error) {
+			if ((error as any)?.code !== 'ENOENT') console.error(`statistics.load():`, error);
+			return;
+		}
+
+		const expiredBefore = Date.now() - RETENTION;
+		const records: OperationRecord[] = [];
+		let expired = 0;
+
+		for (const line of contents.split('\n')) {
+			if (!line) continue;
+			let record: OperationRecord;
+			try {
+				record = JSON.parse(line);
+			} catch {
+				continue;
+			}
+
+			const optionsKey = `${record.profile}:${record.optionsHash}`;
+			if (record.options !== undefined) this.options.set(optionsKey, record.options);
+
+			if (record.ended < expiredBefore) {
+				expired++;
+				continue;
+			}
+
+			// Options snapshot might have been on one of the expired records
+			if (record.options === undefined && this.lastOptionsHashes.get(record.profile) !== record.optionsHash) {
+				record.options = this.options.get(optionsKey);
+			}
+
+			this.lastOptionsHashes.set(record.profile, record.optionsHash);
+			records.push(record);
+		}
+
+		this.records(records);
+
+		if (expired > 0) {
+			try {
+				await outputFile(this.filePath, records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+			} catch (error) {
+				console.error(`statistics.load(): rewriting expired records failed:`, error);
+			}
+		}
+	};
+
+	clear = async () => {
+		this.records([]);
+		this.options.clear();
+		this.lastOptionsHashes.clear();
+		if (this.spool) await this.spool.delete();
+		else await deletePath(this.filePath);
+	};
+}
+
+/**
+ * Groups records and computes their statistics. Options groups are sorted
+ * chronologically by their first appearance, so that each one can be
+ * compared to the one before it.
+ */
+export function groupRecords(records: OperationRecord[], groupBy: StatisticsGroupBy): StatisticsGroup[] {
+	const groups = new Map<string, OperationRecord[]>();
+
+	for (const record of records) {
+		const key =
+			groupBy === 'profile'
+				? record.profile
+				: groupBy === 'processor'
+				? record.processor
+				: `${record.profile}:${record.optionsHash}`;
+		let group = groups.get(key);
+		if (!group) groups.set(key, (group = []));
+		group.push(record);
+	}
+
+	const result: StatisticsGroup[] = [];
+
+	for (const [key, group] of groups) {
+		const last = group[group.length - 1]!;
+		const summary = summarizeRecords(group);
+		const isSingleProfile = groupBy !== 'processor' || group.every(({profile}) => profile === last.profile);
+		result.push({
+			key,
+			title: groupBy === 'processor' ? last.processor : last.profileTitle,
+			profile: isSingleProfile ? last.profile : undefined,
+			...summary,
+			optionsHash: groupBy === 'options' ? last.optionsHash : undefined,
+		});
+	}
+
+	return groupBy === 'options' ? result.sort((a, b) => a.first - b.first) : result.sort((a, b) => b.count - a.count);
+}
+
+export function summarizeRecords(records: OperationRecord[]) {
+	const durations = records.map(({started, ended}) => ended - started).sort((a, b) => a - b);
+	const waits = records.map(({wait}) => wait).filter((wait): wait is number => wait != null);
+	const errors = records.reduce((count, {error}) => (error ? count + 1 : count), 0);
+	const inputs = records.reduce((count, record) => count + record.inputs, 0);
+	const activeTime = getActiveTime(records);
+
+	return {
+		count: records.length,
+		errors,
+		errorRate: records.length > 0 ? errors / records.length : 0,
+		inputs,
+		averageDuration: average(durations),
+		medianDuration: durations[Math.floor(durations.length / 2)] ?? 0,
+		averageWait: waits.length > 0 ? average(waits) : null,
+		throughput: activeTime > 0 ? inputs / (activeTime / 60_000) : 0,
+		first: records.reduce((first, {started}) => Math.min(first, started), Infinity),
+		last: records.reduce((last, {ended}) => Math.max(last, ended), 0),
+	};
+}
+
+/**
+ * Sums up time during which at least one of the operations was running, so
+ * that parallel operations aren't counted multiple times, and idle time in
+ * between batches doesn't drag the throughput down.
+ */
+function getActiveTime(records: OperationRecord[]) {
+	const runs = records.map(({started, ended}) => [started, ended] as [number, number]).sort((a, b) => a[0] - b[0]);
+	let total = 0;
+	let currentStart = -Infinity;
+	let currentEnd = -Infinity;
+
+	for (const [start, end] of runs) {
+		if (start > currentEnd) {
+			if (currentEnd > currentStart) total += currentEnd - currentStart;
+			currentStart = start;
+			currentEnd = end;
+		} else {
+			currentEnd = Math.max(currentEnd, end);
+		}
+	}
+
+	if (currentEnd > currentStart) total += currentEnd - currentStart;
+
+	return total;
+}
+
+/**
+ * Distributes record durations into `count` equally sized buckets.
+ */
+export function getDurationHistogram(records: OperationRecord[], count = 20): HistogramBucket[] {
+	if (records.length === 0) return [];
+
+	const durations = records.map(({started, ended}) => ended - started);
+	const min = Math.min(...durations);
+	const max = Math.max(...durations);
+	const size = Math.max(1, (max - min) / count);
+	const buckets = createBuckets(min, size, count);
+
+	for (let i = 0; i < records.length; i++) {
+		const bucket = buckets[Math.min(count - 1, Math.floor((durations[i]! - min) / size))]!;
+		bucket.count++;
+		if (records[i]!.error) bucket.errors++;
+	}
+
+	return buckets;
+}
+
+/**
+ * Distributes records into `count` equally sized time buckets by their end time.
+ */
+export function getTimeline(records: OperationRecord[], from: number, to: number, count = 30): HistogramBucket[] {
+	if (records.length === 0 || to <= from) return [];
+
+	const size = (to - from) / count;
+	const buckets = createBuckets(from, size, count);
+
+	for (const record of records) {
+		if (record.ended < from || record.ended > to) continue;
+		const bucket = buckets[Math.min(count - 1, Math.floor((record.ended - from) / size))]!;
+		bucket.count++;
+		if (record.error) bucket.errors++;
+	}
+
+	return buckets;
+}
+
+function createBuckets(from: number, size: number, count: number) {
+	const buckets: HistogramBucket[] = [];
+	for (let i = 0; i < count; i++)
+		buckets.push({from: from + i * size, to: from + (i + 1) * size, count: 0, errors: 0});
+	return buckets;
+}
+
+function average(values: number[]) {
+	return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
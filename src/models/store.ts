@@ -4,12 +4,17 @@ import {BrowserWindow} from 'electron';
 import {readJson, outputFile} from 'lib/fs';
 import Worker from 'models/worker';
 import {debounce} from 'lib/utils';
+import {registry, parseRegistryMapping} from 'lib/registry';
 import {reaction} from 'statin';
 import {createContext} from 'preact';
 import {useContext} from 'preact/hooks';
 import {App} from 'models/app';
 import {createSettings, Settings} from 'models/settings';
 import {Operations} from 'models/operations';
+import {Api} from 'models/api';
+import {Statistics} from 'models/statistics';
+import {Notifications} from 'models/notifications';
+import {Workspace} from 'models/workspace';
 import {Plugins} from 'models/plugins';
 import {Dependencies} from 'models/dependencies';
 import {Processors} from 'models/processors';
@@ -24,6 +29,7 @@ import {registerContextMenus} from 'models/contextMenus';
 import {History} from 'poutr';
 import {createMemoryHistory} from 'poutr';
 import {ExpiringSet} from 'lib/expiringSet';
+import {pruneThumbnails} from 'lib/preview';
 
 export interface Store {
 	window: BrowserWindow;
@@ -41,6 +47,10 @@ export interface Store {
 	processors: Processors;
 	profiles: Profiles;
 	worker: Worker;
+	api: Api;
+	statistics: Statistics;
+	notifications: Notifications;
+	workspace: Workspace;
 	history: History;
 	recentFiles: ExpiringSet<string>;
 }
@@ -51,6 +61,9 @@ export async function createStore({
 	isWindowsPortable,
 	settingsFile = 'settings.json',
 	profilesFile = 'profiles.json',
+	operationsFile = 'operations.json',
+	statisticsFile = 'statistics.jsonl',
+	headless = false,
 }: {
 	appPath: string;
 	userDataPath: string;
@@ -58,6 +71,16 @@ export async function createStore({
 	settingsFile?: string;
 	sessionFile?: string;
 	profilesFile?: string;
+	operationsFile?: string;
+	statisticsFile?: string;
+	/**
+	 * Headless store doesn't save settings, profiles, or operations back to
+	 * user data, so it can run next to the main window instance without the
+	 * two fighting over files. Operations still spool their logs into
+	 * `operation-logs`, but those are named by unique operation IDs, and
+	 * deleted as orphans by the main instance.
+	 */
+	headless?: boolean;
 }) {
 	// Settings need to load before we initialize other states, since they might
 	// depend on some values.
@@ -74,13 +97,17 @@ export async function createStore({
 	store.node = new Node(store);
 	store.events = new Events(store);
 	store.modals = new Modals(store);
-	store.operations = new Operations(store);
+	store.operations = new Operations(Path.join(userDataPath, operationsFile), store);
 	store.outputs = new Outputs(store);
 	store.plugins = new Plugins(store);
 	store.dependencies = new Dependencies(store);
 	store.processors = new Processors(store);
 	store.profiles = new Profiles(Path.join(userDataPath, profilesFile), store);
 	store.worker = new Worker(store);
+	store.api = new Api(store);
+	store.statistics = new Statistics(Path.join(userDataPath, statisticsFile), store);
+	store.notifications = new Notifications(store);
+	store.workspace = new Workspace(store);
 	store.recentFiles = new ExpiringSet<string>({
 		lifespan: 1000,
 		cleanInterval: 1000,
@@ -96,10 +123,23 @@ export async function createStore({
 		});
 	}
 
+	// Keep registry in sync with its settings
+	reaction(
+		() => ({
+			url: store.settings.registryUrl(),
+			scopes: parseRegistryMapping(store.settings.registryScopes().map((line) => line())),
+			tokens: parseRegistryMapping(store.settings.registryTokens().map((line) => line())),
+		}),
+		registry.configure,
+		{immediate: true}
+	);
+
 	// Load stuff
 	await Promise.all([store.node.load(), store.plugins.load(), store.profiles.load()]);
 	store.dependencies.loadDependentUpon();
 
+	if (headless) return store as Store;
+
 	// Register context menus
 	registerContextMenus(store);
 
@@ -107,6 +147,22 @@ export async function createStore({
 	store.plugins.startWatching();
 	store.profiles.startWatching();
 
+	// Desktop notifications
+	store.notifications.startListening();
+
+	// Operation statistics
+	await store.statistics.load();
+	store.statistics.startRecording();
+
+	// Restore queue and history from the last session
+	await store.operations.load();
+	store.operations.startWatching();
+	store.operations.deleteOrphanedLogSpools();
+	pruneThumbnails(store.app.thumbnailsPath);
+
+	// Local HTTP API, started when enabled in settings
+	store.api.startWatching();
+
 	// Auto-save settings
 	reaction(
 		() => JSON.stringify(store.settings, null, 2),
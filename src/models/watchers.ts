@@ -0,0 +1,266 @@
+import FS, {promises as FSP} from 'fs';
+import Path from 'path';
+import {signal, reaction, action, Disposer} from 'statin';
+import {eem, globToRegExp, convertPathToPOSIX, normalizePath} from 'lib/utils';
+import * as serialize from 'lib/serialize';
+import {extractOptionPaths} from 'lib/permissions';
+import type {Store} from 'models/store';
+import type {Profile} from 'models/profiles';
+import type {Operation} from 'models/operations';
+
+interface WatchConfig {
+	paths: string[];
+	include: RegExp[];
+	exclude: RegExp[];
+	recursive: boolean;
+	debounce: number;
+	ignoreOutputs: boolean;
+}
+
+interface Candidate {
+	size: number;
+	mtime: number;
+	timeoutId: ReturnType<typeof setTimeout>;
+}
+
+// How many paths of files produced by profile's operations, and files dropped
+// by watchers to remember
+const PATHS_LIMIT = 1000;
+
+/**
+ * Watches directories configured in profile's common options, and drops
+ * newly appearing files into the profile once they stop growing.
+ */
+export class ProfileWatchers {
+	store: Store;
+	profile: Profile;
+	errors = signal<string[]>([]);
+	protected fsWatchers: FS.FSWatcher[] = [];
+	protected candidates = new Map<string, Candidate>();
+	protected produced = new Set<string>();
+	protected dropped = new Set<string>(); // `path:size:mtime` of dropped files
+	protected config: WatchConfig | null = null;
+	protected configReactionDisposer: Disposer | null = null;
+	protected notReadyReported = false;
+
+	constructor(profile: Profile, store: Store) {
+		this.profile = profile;
+		this.store = store;
+	}
+
+	isWatching = () => this.configReactionDisposer != null;
+
+	/**
+	 * Starts watching, and restarts watchers whenever their options change.
+	 */
+	start = () => {
+		if (this.configReactionDisposer) return;
+
+		const options = this.profile.commonOptions;
+		this.configReactionDisposer = reaction(() => {
+			const config: WatchConfig = {
+				paths: options
+					.watchPaths()
+					.map((path) => path().trim())
+					.filter(Boolean),
+				include: toPatterns(options.watchInclude().map((pattern) => pattern())),
+				exclude: toPatterns(options.watchExclude().map((pattern) => pattern())),
+				recursive: options.watchRecursive(),
+				debounce: options.watchDebounce(),
+				ignoreOutputs: options.watchIgnoreOutputs(),
+			};
+			this.closeWatchers();
+			this.config = config;
+			this.openWatchers();
+		});
+	};
+
+	stop = () => {
+		this.configReactionDisposer?.();
+		this.configReactionDisposer = null;
+		this.closeWatchers();
+		this.config = null;
+	};
+
+	/**
+	 * Marks path as produced by profile's operation, so that it's ignored when
+	 * it appears in one of the watched directories.
+	 */
+	markProduced = (path: string) => rememberPath(this.produced, normalizePath(path));
+
+	protected openWatchers = () => {
+		const config = this.config;
+		const errors: string[] = [];
+
+		if (!config) return;
+
+		for (const path of config.paths) {
+			try {
+				const directory = normalizePath(path);
+				const watcher = FS.watch(directory, {recursive: config.recursive}, (event, file) => {
+					// Only renames signal new files, changes are handled by candidate checking
+					if (event === 'rename' && typeof file === 'string') this.handleFile(directory, file);
+				});
+				watcher.on('error', (error) => this.reportError(`Watcher of "${directory}" errored: ${eem(error)}`));
+				this.fsWatchers.push(watcher);
+			} catch (error) {
+				errors.push(`Can't watch "${path}": ${eem(error)}`);
+			}
+		}
+
+		action(() => this.errors(errors));
+	};
+
+	protected closeWatchers = () => {
+		for (const watcher of this.fsWatchers) watcher.close();
+		this.fsWatchers = [];
+		for (const candidate of this.candidates.values()) clearTimeout(candidate.timeoutId);
+		this.candidates.clear();
+		this.dropped.clear();
+		this.notReadyReported = false;
+	};
+
+	protected handleFile = (directory: string, file: string) => {
+		const config = this.config;
+		const relativePath = convertPathToPOSIX(file);
+		const path = Path.join(directory, file);
+
+		if (!config || this.candidates.has(path)) return;
+		if (config.include.length > 0 && !config.include.some((regexp) => regexp.test(relativePath))) return;
+		if (config.exclude.some((regexp) => regexp.test(relativePath))) return;
+
+		this.checkCandidate(path);
+	};
+
+	/**
+	 * Re-checks file stats every `debounce` milliseconds, and drops it when
+	 * they didn't change between two checks.
+	 */
+	protected checkCandidate = async (path: string) => {
+		const config = this.config;
+		if (!config) return;
+
+		let stat: FS.Stats | undefined;
+		try {
+			stat = await FSP.stat(path);
+		} catch {}
+
+		// Config changed while we were waiting for stat
+		if (this.config !== config) return;
+
+		const candidate = this.candidates.get(path);
+
+		// File was deleted, or is not a file
+		if (!stat?.isFile()) {
+			if (candidate) clearTimeout(candidate.timeoutId);
+			this.candidates.delete(path);
+			return;
+		}
+
+		// Outputs are reported when operations finish, so files modified in
+		// output directories of a running operation wait for it to end
+		const mtime = stat.mtimeMs;
+		const isPossibleOutput = config.ignoreOutputs && this.isPendingOutput(path, mtime);
+
+		if (candidate && candidate.size === stat.size && candidate.mtime === mtime && !isPossibleOutput) {
+			this.candidates.delete(path);
+			this.drop(path, stat);
+			return;
+		}
+
+		this.candidates.set(path, {
+			size: stat.size,
+			mtime,
+			timeoutId: setTimeout(() => this.checkCandidate(path), config.debounce),
+		});
+	};
+
+	/**
+	 * Checks if file might be an output of one of profile's running operations.
+	 */
+	protected isPendingOutput = (path: string, mtime: number) =>
+		this.profile.pending().some((operation) => {
+			const started = operation.started();
+			return started != null && started <= mtime && isInDirectories(path, getOutputDirectories(operation));
+		});
+
+	/**
+	 * Files are ignored when they are outputs of profile's operations, or when
+	 * they were already dropped and didn't change since.
+	 */
+	protected isIgnored = (path: string, stat: FS.Stats) => {
+		const normalizedPath = normalizePath(path);
+		return (
+			this.dropped.has(`${normalizedPath}:${stat.size}:${stat.mtimeMs}`) ||
+			(this.config?.ignoreOutputs && this.produced.has(normalizedPath))
+		);
+	};
+
+	protected drop = async (path: string, stat: FS.Stats) => {
+		if (this.isIgnored(path, stat)) return;
+
+		if (!this.profile.isReady()) {
+			if (!this.notReadyReported) {
+				this.notReadyReported = true;
+				this.reportError(`Profile is not ready, new files in watched directories are ignored.`);
+			}
+			return;
+		}
+
+		try {
+			const item = await serialize.file(path);
+			// Operation might have reported the file while it was being serialized
+			if (this.isIgnored(path, stat)) return;
+			rememberPath(this.dropped, `${normalizePath(path)}:${stat.size}:${stat.mtimeMs}`);
+			await this.profile.dropItems([item], {action: 'watch', modifiers: ''});
+		} catch (error) {
+			this.reportError(`Dropping "${path}" failed: ${eem(error)}`);
+		}
+	};
+
+	protected reportError = (message: string) => {
+		this.store.events
+			.create({
+				variant: 'danger',
+				title: `Watch folders error`,
+				message: `Profile "${this.profile.displayTitle()}": ${message}`,
+			})
+			.open();
+	};
+}
+
+/**
+ * Adds path to a set that only keeps the most recent `PATHS_LIMIT` paths.
+ */
+function rememberPath(paths: Set<string>, path: string) {
+	paths.delete(path);
+	paths.add(path);
+	if (paths.size > PATHS_LIMIT) paths.delete(paths.values().next().value!);
+}
+
+/**
+ * Directories operation might be writing its outputs into: directories of its
+ * inputs, paths from its options, and directories of outputs it reported.
+ */
+function getOutputDirectories(operation: Operation) {
+	const directories: string[] = [];
+
+	for (const item of [...operation.inputs, ...operation.outputs()]) {
+		if ('path' in item) directories.push(Path.dirname(item.path));
+	}
+
+	for (const path of extractOptionPaths(operation.payload.options)) {
+		directories.push(Path.extname(path) ? Path.dirname(path) : path);
+	}
+
+	return directories;
+}
+
+function isInDirectories(path: string, directories: string[]) {
+	const normalizedPath = normalizePath(path);
+	return directories.some((directory) => normalizedPath.startsWith(`${normalizePath(directory)}${Path.sep}`));
+}
+
+function toPatterns(globs: string[]) {
+	return globs.filter((glob) => glob.trim()).map((glob) => globToRegExp(glob));
+}
@@ -1,6 +1,7 @@
 import {fork, ChildProcess} from 'child_process';
 import Path from 'path';
-import {signal, createAction} from 'statin';
+import OS from 'os';
+import {signal, createAction, reaction, Disposer} from 'statin';
 import type {Operation} from 'models/operations';
 import {Store} from 'models/store';
 import {Profile} from 'models/profiles';
@@ -10,7 +11,8 @@ import type {Processor} from 'models/processors';
 import type {SerializedInputItem} from 'models/items';
 import type {ProgressData, Item} from '@drovp/types';
 import {computed} from 'statin';
-import {eem, makePromise, throttle} from 'lib/utils';
+import {eem, makePromise, throttle, formatSize} from 'lib/utils';
+import {getPermissionFlags, extractOptionPaths} from 'lib/permissions';
 
 export interface SerializedOperation {
 	id: string;
@@ -71,6 +73,8 @@ export class Thread {
 	readonly processorId: string;
 	idleSince: number = 0;
 	protected process: ChildProcess | null = null;
+	// Permission model flags current process was started with
+	protected permissionFlags: string[] = [];
 	protected refreshWhenDone: boolean = false;
 	protected job: ThreadJob | null = null;
 
@@ -93,7 +97,7 @@ export class Thread {
 		return this.job != null;
 	}
 
-	protected async spinUp() {
+	protected async spinUp(permissionFlags: string[] = []) {
 		if (this.process != null) return;
 
 		if (!this.store.node.isReady()) {
@@ -113,15 +117,16 @@ export class Thread {
 			dataPath: processor.plugin.dataPath,
 		};
 
+		// Warnings only for local plugins. Permission model emits experimental
+		// warnings into stderr, which would be reported as operation errors.
+		const showWarnings =
+			processor.plugin.isLocal && this.store.settings.developerMode() && permissionFlags.length === 0;
 		const threadProcess = fork(this.path, ['--config', JSON.stringify(threadConfig)], {
 			execPath: this.store.node.nodePath,
-			// Warnings only for local plugins
-			execArgv:
-				processor.plugin.isLocal && this.store.settings.developerMode()
-					? undefined
-					: ['--no-deprecation', '--no-warnings'],
+			execArgv: showWarnings ? undefined : ['--no-deprecation', '--no-warnings', ...permissionFlags],
 			silent: true,
 		});
+		this.permissionFlags = permissionFlags;
 		this.idleSince = Date.now();
 
 		// We are communicating and handling everything through IPC, but these
@@ -130,7 +135,7 @@ export class Thread {
 			const data = buffer.toString();
 			const id = this.job?.operation.id;
 			if (id) {
-				this.handleMessage({type: 'log', id, payload: data});
+				this.handleMessage({type: 'log', id, payload: data, source: 'stdout'});
 			} else {
 				console.error(`Thread stdout with no job in progress: ${data}`);
 				this.requestRefresh();
@@ -140,7 +145,7 @@ export class Thread {
 			const data = buffer.toString();
 			const id = this.job?.operation.id;
 			if (id) {
-				this.handleMessage({type: 'log', id, payload: data});
+				this.handleMessage({type: 'log', id, payload: data, source: 'stderr'});
 				this.handleMessage({type: 'output', id, payload: {kind: 'error', message: data}});
 			} else {
 				console.error(`Thread stderr with no job in progress: ${data}`);
@@ -190,6 +195,8 @@ export class Thread {
 		this.process = null;
 
 		if (this.job != null) {
+			// Unless the caller specified otherwise, losing a thread mid-job is a crash
+			if (!this.job.operation.failure) this.job.operation.failure = 'crash';
 			this.job.operation.handleOutput({
 				kind: 'error',
 				message:
@@ -231,7 +238,15 @@ export class Thread {
 
 			this.job = {operation, resolve};
 
-			if (!this.process) await this.spinUp();
+			// Restricted processes are scoped to operation's paths, so they
+			// have to be recreated when the scope changes
+			const permissionFlags = this.getPermissionFlags(operation);
+			if (this.process && permissionFlags.join('\n') !== this.permissionFlags.join('\n')) {
+				killProcess(this.process);
+				this.process = null;
+			}
+
+			if (!this.process) await this.spinUp(permissionFlags);
 
 			// Encode blob contents into base64
 			let tmpPayload = {...operation.payload, inputs: undefined, input: undefined} as SerializedOperationPayload;
@@ -259,6 +274,40 @@ export class Thread {
 		this.cleanup();
 	}
 
+	/**
+	 * Node.js permission model flags that restrict the process to what
+	 * processor's plugin declared, resolved for the operation. Empty when
+	 * permissions are not enforced for the plugin.
+	 */
+	protected getPermissionFlags(operation: Operation) {
+		const enforcement = this.store.settings.pluginPermissions();
+		const processor = this.processor();
+		const plugin = processor?.plugin;
+
+		if (!processor || !plugin || enforcement === 'off') return [];
+		if (enforcement === 'declared' && !plugin.permissions) return [];
+
+		const inputs: string[] = [];
+		for (const item of operation.inputs) {
+			if (item.kind === 'file' || item.kind === 'directory') inputs.push(item.path);
+		}
+
+		// Thread module, plugins with their dependencies, and data of plugins
+		// providing processor's dependencies
+		const readable = [Path.dirname(this.path), this.store.plugins.path];
+		for (const id of processor.dependencyIds) {
+			const dependencyPlugin = this.store.plugins.byId().get(id.split(':')[0]!);
+			if (dependencyPlugin) readable.push(dependencyPlugin.dataPath);
+		}
+
+		return getPermissionFlags(
+			this.store.node.version() || '0.0.0',
+			plugin.permissions,
+			{inputs, optionPaths: extractOptionPaths(operation.payload.options), dataPath: plugin.dataPath},
+			readable
+		);
+	}
+
 	protected cleanup() {
 		this.job = null;
 		this.idleSince = Date.now();
@@ -303,7 +352,7 @@ export class Thread {
 				operation.handleTitle(message.payload);
 				break;
 			case 'log':
-				operation.handleLog(message.payload);
+				operation.handleLog(message.payload, message.source ?? 'log');
 				break;
 			case 'meta':
 				operation.handleMeta(message.payload);
@@ -337,28 +386,50 @@ export class Thread {
 
 interface WorkerOptions {
 	cleanupInterval: number;
+	resourceCheckInterval: number;
 }
 
 export default class Worker {
 	static defaults: WorkerOptions = {
 		cleanupInterval: 10000, // milliseconds after which unused threads are disposed
+		resourceCheckInterval: 2000, // milliseconds between resource checks when operations are held by them
 	};
 
 	store: Store;
 	options: WorkerOptions;
 	protected threadsByProcessor: Map<string, Thread[]>;
 	protected cleanupID: ReturnType<typeof setTimeout> | null;
+	protected resourceCheckID: ReturnType<typeof setTimeout> | null = null;
+	protected scheduleCheckID: ReturnType<typeof setTimeout> | null = null;
+	protected settingsReactionDisposer: Disposer;
 	isPaused = signal<boolean>(false);
+	// Why queued operations that could otherwise start are not being started
+	holdReason = signal<string | null>(null);
 
 	constructor(store: Store, options?: Partial<WorkerOptions>) {
 		this.store = store;
 		this.options = {...Worker.defaults, ...options};
 		this.threadsByProcessor = new Map();
 		this.cleanupID = setInterval(this.clearUnusedThreads, this.options.cleanupInterval * 1.1);
+
+		// Relaxed limits might allow more operations to start
+		const {settings} = store;
+		this.settingsReactionDisposer = reaction(
+			() => [
+				settings.maxConcurrentOperations(),
+				settings.resourceGate(),
+				settings.resourceGateMaxLoad(),
+				settings.resourceGateMinFreeMemory(),
+			],
+			() => this.requestFillThreads()
+		);
 	}
 
 	destroy = () => {
 		if (this.cleanupID) clearInterval(this.cleanupID);
+		if (this.resourceCheckID) clearTimeout(this.resourceCheckID);
+		if (this.scheduleCheckID) clearTimeout(this.scheduleCheckID);
+		this.settingsReactionDisposer();
 		this.killAllThreads();
 	};
 
@@ -374,7 +445,10 @@ export default class Worker {
 	 * individual thread types.
 	 */
 	fillThreads = createAction(() => {
-		if (this.isPaused()) return;
+		if (this.isPaused()) {
+			this.holdReason(null);
+			return;
+		}
 
 		const queued = this.store.operations.queued();
 		const pending = this.store.operations.pending();
@@ -399,33 +473,143 @@ export default class Worker {
 		// through them, because queued array is shifted on each `.start()`.
 		const operationsToStart: Operation[] = [];
 
+		// Operations of higher priority profiles are started first. Queue order
+		// is preserved between operations of the same priority.
+		const now = Date.now();
+		const prioritiesSet = new Set<number>();
+		// Profiles with queued operations, and when their schedule opens (`null` when it's open)
+		const scheduleOpenings = new Map<Profile, number | null>();
+		for (let i = 0; i < queued.length; i++) {
+			const profile = queued[i]!.profile;
+			prioritiesSet.add(profile.commonOptions.priority.value);
+			if (!scheduleOpenings.has(profile)) scheduleOpenings.set(profile, profile.getScheduleOpening(now));
+		}
+		const priorities = [...prioritiesSet].sort((a, b) => b - a);
+		const isPrioritized = priorities.length > 1;
+		const maxConcurrent = this.store.settings.maxConcurrentOperations();
+		const freeSlots = maxConcurrent > 0 ? maxConcurrent - pending.length : Infinity;
+		let holdReason: string | null = null;
+
 		// This array can get BIG, so optimize speed
-		queueLoop: for (let i = 0; i < queued.length; i++) {
-			const operation = queued[i]!;
-
-			// Checks if this operation can be slotted, and skips it if there is
-			// not enough free load type threads for this processor.
-			for (let i = 0; i < operation.threadTypes.length; i++) {
-				const threadType = operation.threadTypes[i]!;
-				const threadsCount = threadsCountMap[threadType];
-				const maxThreadsCount = maxThreadsMap[threadType];
-
-				if (
-					threadsCount != null &&
-					maxThreadsCount != null &&
-					threadsCount >= Math.min(operation.getMaxThreads(), maxThreadsCount)
-				) {
-					continue queueLoop;
+		priorityLoop: for (const priority of priorities) {
+			queueLoop: for (let i = 0; i < queued.length; i++) {
+				const operation = queued[i]!;
+
+				if (operation.state.value === 'held') continue;
+				if (operation.retryAt.value != null && operation.retryAt.value > now) continue;
+				if (isPrioritized && operation.profile.commonOptions.priority.value !== priority) continue;
+				if (scheduleOpenings.get(operation.profile) != null) continue;
+
+				// Checks if this operation can be slotted, and skips it if there is
+				// not enough free load type threads for this processor.
+				for (let i = 0; i < operation.threadTypes.length; i++) {
+					const threadType = operation.threadTypes[i]!;
+					const threadsCount = threadsCountMap[threadType];
+					const maxThreadsCount = maxThreadsMap[threadType];
+
+					if (
+						threadsCount != null &&
+						maxThreadsCount != null &&
+						threadsCount >= Math.min(operation.getMaxThreads(), maxThreadsCount)
+					) {
+						continue queueLoop;
+					}
+				}
+
+				if (operationsToStart.length >= freeSlots) {
+					holdReason = `Max concurrent operations limit (${maxConcurrent}) reached.`;
+					break priorityLoop;
 				}
+
+				insertThread(operation);
+				operationsToStart.push(operation);
 			}
+		}
 
-			insertThread(operation);
-			operationsToStart.push(operation);
+		this.updateSchedules(scheduleOpenings, now);
+
+		if (operationsToStart.length > 0) {
+			const resourcesHoldReason = this.checkResources();
+			if (resourcesHoldReason) {
+				this.holdReason(resourcesHoldReason);
+				this.scheduleResourceCheck();
+				return;
+			}
 		}
 
+		this.holdReason(holdReason);
+
 		for (const operation of operationsToStart) operation.start();
 	});
 
+	/**
+	 * Updates profiles' schedule waiting state, resets overrides of profiles
+	 * that ran out of operations, and plans threads filling for when the
+	 * nearest schedule opens.
+	 */
+	protected updateSchedules = (scheduleOpenings: Map<Profile, number | null>, now: number) => {
+		let nearestOpening = Infinity;
+
+		for (const profile of this.store.profiles.all()) {
+			const opening = scheduleOpenings.get(profile) ?? null;
+			profile.scheduleWaitingUntil(opening);
+			if (opening != null) nearestOpening = Math.min(nearestOpening, opening);
+			if (
+				profile.scheduleOverride.value &&
+				!scheduleOpenings.has(profile) &&
+				profile.pending().length === 0 &&
+				!profile.isAdding()
+			) {
+				profile.scheduleOverride(false);
+			}
+		}
+
+		if (this.scheduleCheckID) clearTimeout(this.scheduleCheckID);
+		this.scheduleCheckID = null;
+
+		// Re-checking at least every minute in case system time changes or computer sleeps
+		if (Number.isFinite(nearestOpening)) {
+			const delay = Math.min(Math.max(nearestOpening - now, 0), 60000);
+			this.scheduleCheckID = setTimeout(() => {
+				this.scheduleCheckID = null;
+				this.requestFillThreads();
+			}, delay);
+		}
+	};
+
+	/**
+	 * Returns a reason why new operations shouldn't start when system
+	 * resources are below configured thresholds, or `null` when they can.
+	 */
+	checkResources = (): string | null => {
+		const settings = this.store.settings;
+
+		if (!settings.resourceGate()) return null;
+
+		// Load average is always 0 on Windows, so this check never holds there
+		const maxLoad = settings.resourceGateMaxLoad();
+		const load = OS.loadavg()[0]! / Math.max(OS.cpus().length, 1);
+		if (maxLoad > 0 && load > maxLoad) {
+			return `CPU load (${load.toFixed(2)} per core) is above the limit (${maxLoad}).`;
+		}
+
+		const minFreeMemory = settings.resourceGateMinFreeMemory() * 1024 * 1024;
+		const freeMemory = OS.freemem();
+		if (minFreeMemory > 0 && freeMemory < minFreeMemory) {
+			return `Free memory (${formatSize(freeMemory)}) is below the limit (${formatSize(minFreeMemory)}).`;
+		}
+
+		return null;
+	};
+
+	protected scheduleResourceCheck = () => {
+		if (this.resourceCheckID) return;
+		this.resourceCheckID = setTimeout(() => {
+			this.resourceCheckID = null;
+			this.requestFillThreads();
+		}, this.options.resourceCheckInterval);
+	};
+
 	/**
 	 * Requests threads to be filled soon.
 	 * Threads are usually filled on operation end. Sometimes, you might want
@@ -437,8 +621,9 @@ export default class Worker {
 	/**
 	 * Queue controls.
 	 *
-	 * There is currently no mechanism to pause individual operations,
-	 * so the currently pending ones are left to complete.
+	 * Pausing only stops new operations from starting, the currently pending
+	 * ones are left to complete. Individual queued operations can be put on
+	 * hold with `operation.hold()`.
 	 */
 	resume = createAction(() => {
 		this.isPaused(false);
@@ -0,0 +1,434 @@
+import {ipcRenderer} from 'electron';
+import manifest from 'manifest';
+import {action} from 'statin';
+import {eem, isType, Type} from 'lib/utils';
+import {outputFile, readJson} from 'lib/fs';
+import {escapeHtml} from 'lib/ansi';
+import {getMissingLocalSource} from 'lib/pluginsLock';
+import {toJS} from 'models/options';
+import type {OptionsSchema} from '@drovp/types';
+import type {Store} from 'models/store';
+import type {SerializedProfile, Category} from 'models/profiles';
+import type {SerializedSettings} from 'models/settings';
+
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+/**
+ * Settings that shape the shared toolbox, and are carried by bundles.
+ * Machine specific stuff like window behavior, or registry tokens, is not.
+ */
+export const WORKSPACE_SETTINGS = [
+	'profilesGridColumns',
+	'showProfileTabs',
+	'compactImportCodes',
+	'maxConcurrentOperations',
+	'operationsProcessPriority',
+	'resourceGate',
+	'resourceGateMaxLoad',
+	'resourceGateMinFreeMemory',
+	'registryUrl',
+	'registryScopes',
+] as const;
+
+export interface WorkspacePlugin {
+	name: string;
+	version: string;
+	source: string;
+	isLocal?: boolean; // local development plugins can't be installed from bundles
+}
+
+export interface WorkspaceCategory {
+	id: string;
+	title: string;
+	profiles: SerializedProfile[];
+}
+
+export interface WorkspaceBundle {
+	bundleVersion: number;
+	app: string; // version of the app that created the bundle
+	created: number;
+	plugins: WorkspacePlugin[];
+	categories: WorkspaceCategory[];
+	settings: Partial<SerializedSettings>;
+}
+
+export type CategoryConflictResolution = 'merge' | 'new';
+export type ProfileConflictResolution = 'skip' | 'replace' | 'copy';
+
+/**
+ * Profile common options that run commands, send requests, or drop files into
+ * profiles on their own. Imported only when user allows it.
+ */
+export const AUTOMATION_OPTIONS = ['hookBatchDone', 'hookOperationError', 'hookUrl', 'watchPaths'] as const;
+
+type ImportResolution = {
+	categories?: CategoryConflictResolution;
+	profiles?: ProfileConflictResolution;
+	automation?: boolean;
+	settings?: boolean;
+};
+
+/**
+ * Exports and imports the whole profiles setup with plugins it requires,
+ * and relevant settings, so it can be reproduced on another machine.
+ */
+export class Workspace {
+	store: Store;
+
+	constructor(store: Store) {
+		this.store = store;
+	}
+
+	createBundle = (): WorkspaceBundle => {
+		const {profiles, plugins, settings} = this.store;
+		const requiredPlugins = new Map<string, WorkspacePlugin>();
+
+		for (const profile of profiles.all()) {
+			const name = profile.pluginMeta.name;
+			if (requiredPlugins.has(name)) continue;
+			const plugin = plugins.byId().get(name);
+			requiredPlugins.set(
+				name,
+				plugin
+					? {
+							name,
+							version: plugin.version,
+							source: plugin.source || name,
+							isLocal: plugin.isLocal || undefined,
+						}
+					: {name, version: profile.version(), source: name}
+			);
+		}
+
+		const bundleSettings: Partial<SerializedSettings> = {};
+		for (const name of WORKSPACE_SETTINGS) (bundleSettings as any)[name] = toJS(settings[name]);
+
+		return {
+			bundleVersion: WORKSPACE_BUNDLE_VERSION,
+			app: manifest.version,
+			created: Date.now(),
+			plugins: [...requiredPlugins.values()],
+			categories: profiles.toJSON(),
+			settings: bundleSettings,
+		};
+	};
+
+	exportMaybe = async () => {
+		const {canceled, filePath} = (await ipcRenderer.invoke('show-save-dialog', {
+			defaultPath: `${manifest.name}-workspace.json`,
+			filters: [{name: 'JSON', extensions: ['json']}],
+		})) as Electron.SaveDialogReturnValue;
+
+		if (canceled || !filePath) return;
+
+		try {
+			await outputFile(filePath, JSON.stringify(this.createBundle(), null, 2));
+		} catch (error) {
+			this.store.events.create({variant: 'danger', title: `Workspace export error`, message: eem(error)}).open();
+		}
+	};
+
+	/**
+	 * Reads a bundle, and asks how to resolve conflicts with current setup
+	 * before importing it.
+	 */
+	importMaybe = async (bundlePath?: string) => {
+		const {plugins, profiles, settings, staging, modals} = this.store;
+
+		if (!bundlePath) {
+			const {canceled, filePaths} = (await ipcRenderer.invoke('show-open-dialog', {
+				properties: ['openFile'],
+				filters: [{name: 'JSON', extensions: ['json']}],
+			})) as Electron.OpenDialogReturnValue;
+			if (canceled || !filePaths[0]) return;
+			bundlePath = filePaths[0];
+		}
+
+		let bundle: WorkspaceBundle;
+		try {
+			const data = await readJson(bundlePath);
+			validateWorkspaceBundle(data);
+			bundle = data;
+		} catch (error) {
+			this.store.events.create({variant: 'danger', title: `Workspace import error`, message: eem(error)}).open();
+			return;
+		}
+
+		// Plugins
+		const installIds: string[] = [];
+		const unavailable: string[] = [];
+		const versionMismatches: string[] = [];
+
+		for (const {name, version, source, isLocal} of bundle.plugins) {
+			const installed = plugins.byId().get(name);
+			if (installed) {
+				if (installed.version !== version) versionMismatches.push(`${name}: ${installed.version} (${version})`);
+				continue;
+			}
+			const installId = source === name ? `${name}@${version}` : source;
+			if (isLocal || (await getMissingLocalSource(plugins.path, installId))) unavailable.push(name);
+			else installIds.push(installId);
+		}
+
+		// Conflicts
+		const categoryConflicts = bundle.categories.filter((category) => this.findExistingCategory(category) != null);
+		const profileConflicts = bundle.categories
+			.flatMap((category) => category.profiles)
+			.filter((profile) => profiles.byId().has(profile.id));
+		const automatedProfiles = bundle.categories
+			.flatMap((category) => category.profiles)
+			.map((profile) => [profile, getAutomationOptions(profile)] as const)
+			.filter(([, names]) => names.length > 0);
+		const changedSettings = getBundleSettings(bundle).filter(
+			([name, value]) => JSON.stringify(toJS(settings[name])) !== JSON.stringify(value)
+		);
+
+		const schema: OptionsSchema<ImportResolution> = [];
+
+		if (categoryConflicts.length > 0) {
+			schema.push({
+				name: 'categories',
+				type: 'select',
+				options: {merge: 'Merge into existing', new: 'Create new tabs'},
+				default: 'merge',
+				title: 'Existing tabs',
+				description: `Tabs that already exist: ${categoryConflicts
+					.map(({title}) => `<b>${escapeHtml(title)}</b>`)
+					.join(', ')}`,
+			});
+		}
+
+		if (profileConflicts.length > 0) {
+			schema.push({
+				name: 'profiles',
+				type: 'select',
+				options: {skip: 'Keep existing', replace: 'Replace', copy: 'Import as copies'},
+				default: 'skip',
+				title: 'Existing profiles',
+				description: `${profileConflicts.length} imported profiles already exist.`,
+			});
+		}
+
+		if (automatedProfiles.length > 0) {
+			schema.push({
+				name: 'automation',
+				type: 'boolean',
+				default: false,
+				title: 'Import hooks and watch folders',
+				description: `Profiles that run commands, send requests, or watch folders:<br>${automatedProfiles
+					.map(
+						([{title, processorId}, names]) =>
+							`<b>${escapeHtml(title || processorId)}</b>: ${names.map((name) => `<code>${name}</code>`).join(', ')}`
+					)
+					.join('<br>')}<br>When disabled, these options are not imported.`,
+			});
+		}
+
+		if (changedSettings.length > 0) {
+			schema.push({
+				name: 'settings',
+				type: 'boolean',
+				default: true,
+				title: 'Apply settings',
+				description: changedSettings
+					.map(([name, value]) => `<code>${name}</code>: <code>${escapeHtml(JSON.stringify(value))}</code>`)
+					.join('<br>'),
+			});
+		}
+
+		const profilesCount = bundle.categories.reduce((count, category) => count + category.profiles.length, 0);
+		const details: string[] = [];
+		if (installIds.length > 0) details.push(`Install plugins:\n- ${installIds.join('\n- ')}`);
+		if (unavailable.length > 0) details.push(`Can't install, source not available:\n- ${unavailable.join('\n- ')}`);
+		if (versionMismatches.length > 0) {
+			details.push(`Installed plugin versions differ from bundle:\n- ${versionMismatches.join('\n- ')}`);
+		}
+
+		const {canceled, payload: resolution} = await modals.promptOptions<ImportResolution>(
+			{
+				title: `Import workspace`,
+				message: `Imports ${bundle.categories.length} tabs with ${profilesCount} profiles.`,
+				details: details.length > 0 ? details.join('\n\n') : undefined,
+			},
+			schema
+		);
+
+		if (canceled) return;
+
+		if (installIds.length > 0) {
+			if (staging.isStaging()) {
+				this.store.events
+					.create({
+						variant: 'danger',
+						title: `Workspace import error`,
+						message: `Can't install plugins while another staging is in progress.`,
+					})
+					.open();
+				return;
+			}
+			if (!(await plugins.confirmInstall(installIds))) return;
+			await plugins.install(installIds);
+		}
+
+		this.import(bundle, resolution || {});
+	};
+
+	/**
+	 * Recreates bundle's categories and profiles, re-mapping chain targets to
+	 * new profile IDs.
+	 */
+	import = (bundle: WorkspaceBundle, resolution: ImportResolution) => {
+		const {profiles, settings} = this.store;
+		const {categories} = profiles;
+		const profileIds = new Map<string, string>(); // bundle profile id -> created profile id
+		const created: {profileId: string; chainTo?: string}[] = [];
+		const skipped: string[] = [];
+		let firstCategoryId: string | undefined;
+
+		action(() => {
+			if (resolution.settings !== false) {
+				for (const [name, value] of getBundleSettings(bundle)) {
+					try {
+						(settings[name] as (value: unknown) => void)(value);
+					} catch (error) {
+						skipped.push(`setting ${name}: ${eem(error)}`);
+					}
+				}
+			}
+
+			for (const bundleCategory of bundle.categories) {
+				const existing = this.findExistingCategory(bundleCategory);
+				const category =
+					existing && resolution.categories !== 'new'
+						? existing
+						: categories.create({
+								title: bundleCategory.title,
+								id: categories.byId().has(bundleCategory.id) ? undefined : bundleCategory.id,
+						  });
+				firstCategoryId = firstCategoryId || category.id;
+
+				for (const data of bundleCategory.profiles) {
+					let id: string | undefined = data.id;
+
+					if (profiles.byId().has(data.id)) {
+						if (resolution.profiles === 'replace') {
+							profiles.delete(data.id, {noToast: true});
+							// Profiles with pending operations can't be deleted
+							if (profiles.byId().has(data.id)) id = undefined;
+						} else if (resolution.profiles === 'copy') {
+							id = undefined;
+						} else {
+							profileIds.set(data.id, data.id);
+							continue;
+						}
+					}
+
+					try {
+						const commonOptions = resolution.automation
+							? data.commonOptions
+							: stripAutomationOptions(data.commonOptions);
+						const profile = profiles.create({
+							...data,
+							id,
+							commonOptions,
+							chainTo: undefined,
+							categoryId: category.id,
+						});
+						profileIds.set(data.id, profile.id);
+						created.push({profileId: profile.id, chainTo: data.chainTo});
+					} catch (error) {
+						skipped.push(`profile ${data.title || data.processorId}: ${eem(error)}`);
+					}
+				}
+			}
+
+			for (const {profileId, chainTo} of created) {
+				const target = chainTo ? profileIds.get(chainTo) : undefined;
+				if (target) profiles.byId().get(profileId)?.chainTo(target);
+			}
+
+			if (firstCategoryId) settings.profileCategory(firstCategoryId);
+		});
+
+		this.store.events
+			.create({
+				variant: skipped.length > 0 ? 'warning' : 'success',
+				title: `Workspace imported`,
+				message: `Imported ${created.length} profiles.`,
+				details: skipped.length > 0 ? `Skipped:\n${skipped.join('\n')}` : undefined,
+			})
+			.open();
+	};
+
+	/**
+	 * Categories are matched by ID, or by case insensitive title.
+	 */
+	protected findExistingCategory = ({id, title}: {id: string; title: string}): Category | undefined => {
+		const {categories} = this.store.profiles;
+		const lowerTitle = title.toLowerCase();
+		return (
+			categories.byId().get(id) ||
+			categories.all().find((category) => category.title().toLowerCase() === lowerTitle)
+		);
+	};
+}
+
+/**
+ * Only settings meant to be shared are ever applied from bundles.
+ */
+function getBundleSettings(bundle: WorkspaceBundle) {
+	return WORKSPACE_SETTINGS.filter((name) => bundle.settings[name] !== undefined).map(
+		(name) => [name, bundle.settings[name]] as const
+	);
+}
+
+/**
+ * Names of automation options that profile has set.
+ */
+function getAutomationOptions(profile: SerializedProfile) {
+	const options = profile.commonOptions || {};
+	return AUTOMATION_OPTIONS.filter((name) => {
+		const value = options[name];
+		return Array.isArray(value) ? value.length > 0 : typeof value === 'string' && value.trim() !== '';
+	});
+}
+
+function stripAutomationOptions(commonOptions: SerializedProfile['commonOptions']) {
+	if (!commonOptions) return commonOptions;
+	const stripped = {...commonOptions};
+	for (const name of AUTOMATION_OPTIONS) delete stripped[name];
+	return stripped;
+}
+
+export function validateWorkspaceBundle(data: unknown): data is WorkspaceBundle {
+	const errors: string[] = [];
+
+	if (!isType<{[key: string]: unknown}>(data, Type.Object)) {
+		errors.push(`not an object`);
+	} else {
+		if (data.bundleVersion !== WORKSPACE_BUNDLE_VERSION) {
+			errors.push(`unsupported "bundleVersion" ${JSON.stringify(data.bundleVersion)}`);
+		}
+		if (!Array.isArray(data.plugins)) errors.push(`missing "plugins"`);
+		if (!isType(data.settings, Type.Object)) errors.push(`missing "settings"`);
+		if (Array.isArray(data.categories)) {
+			for (const category of data.categories) {
+				if (!isType<string>(category?.id, Type.String) || !isType<string>(category?.title, Type.String)) {
+					errors.push(`category is missing "id" or "title"`);
+				} else if (!Array.isArray(category.profiles)) {
+					errors.push(`category "${category.title}" is missing "profiles"`);
+				} else if (category.profiles.some((profile: any) => !isType(profile?.id, Type.String))) {
+					errors.push(`category "${category.title}" has profiles without "id"`);
+				} else if (category.profiles.some((profile: any) => !isType(profile?.processorId, Type.String))) {
+					errors.push(`category "${category.title}" has profiles without "processorId"`);
+				}
+			}
+		} else {
+			errors.push(`missing "categories"`);
+		}
+	}
+
+	if (errors.length > 0) throw new Error(`Invalid workspace bundle:\n- ${errors.join('\n- ')}`);
+
+	return true;
+}
@@ -2,7 +2,14 @@ import {eem, throttle, normalizePath} from 'lib/utils';
 import {promises as FS} from 'fs';
 import OS from 'os';
 import manifest from 'manifest';
-import type {OperationStage, OperationTitle, OperationLogLine, OperationMeta, OperationOutput} from 'models/operations';
+import type {
+	OperationStage,
+	OperationTitle,
+	OperationLogLine,
+	OperationLogSource,
+	OperationMeta,
+	OperationOutput,
+} from 'models/operations';
 import {createProgress} from 'models/progress';
 import type {PayloadData, Processor, ProcessorUtils, ProgressData, OutputMeta} from '@drovp/types';
 import type {SerializedOperation, ThreadConfig} from 'models/worker';
@@ -24,6 +31,7 @@ export interface ThreadLog {
 	id: string;
 	type: 'log';
 	payload: OperationLogLine;
+	source?: OperationLogSource; // `log` when missing
 }
 export interface ThreadMeta {
 	id: string;
@@ -99,6 +107,20 @@ function toString(value: any) {
 	return `${value}`;
 }
 
+/**
+ * Permission model errors only say that access was restricted, so we name
+ * the denied permission and resource.
+ */
+function describeError(error: Error | string) {
+	if (typeof error === 'string') return error;
+	const message = error?.stack || error?.message || `${error}`;
+	if ((error as any)?.code !== 'ERR_ACCESS_DENIED') return message;
+	const {permission, resource} = error as {permission?: string; resource?: string};
+	return `Permission denied: ${permission || 'unknown'}${
+		resource ? ` "${resource}"` : ''
+	}. Plugin's permissions manifest doesn't allow it, or it's outside of operation's paths.\n\n${message}`;
+}
+
 process.on('uncaughtException', handleError);
 
 /**
@@ -157,14 +179,14 @@ function createUtils(id: string): Utils {
 			sendIfCurrent('output', {
 				...meta,
 				kind: 'warning',
-				message: typeof error === 'string' ? error : error?.stack || error?.message || `${error}`,
+				message: describeError(error),
 			});
 		},
 		error: (error: Error | string, meta?: OutputMeta) => {
 			sendIfCurrent('output', {
 				...meta,
 				kind: 'error',
-				message: typeof error === 'string' ? error : error?.stack || error?.message || `${error}`,
+				message: describeError(error),
 			});
 		},
 	};
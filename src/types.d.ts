@@ -51,8 +51,10 @@ interface Manifest extends ManifestBase {
 	os?: string[];
 	cpu?: string[];
 	private?: boolean;
+	deprecated?: string;
 	drovp?: {
 		source?: string;
+		permissions?: unknown; // validated by `validatePluginPermissions()`
 	};
 }
 
@@ -0,0 +1,210 @@
+import Path from 'path';
+import {ipcRenderer} from 'electron';
+import {action, reaction, Disposer} from 'statin';
+import {eem, setAppPath, throttle} from 'lib/utils';
+import * as serialize from 'lib/serialize';
+import {createStore, Store} from 'models/store';
+import type {HeadlessRunArgs} from 'lib/headless';
+import type {Operation, OperationLogEntry} from 'models/operations';
+import type {Profile} from 'models/profiles';
+import type {Item} from '@drovp/types';
+
+/**
+ * Everything printed to stdout is a JSON line, so it can be easily consumed by
+ * scripts. Errors that happen outside of operations go to stderr.
+ */
+function print(data: {type: string; [key: string]: unknown}) {
+	ipcRenderer.send('headless-write', 'stdout', `${JSON.stringify(data)}\n`);
+}
+
+function printError(message: string) {
+	ipcRenderer.send('headless-write', 'stderr', `${message}\n`);
+}
+
+function exit(code: number) {
+	return ipcRenderer.invoke('headless-exit', code);
+}
+
+/**
+ * Resolves when predicate returns a truthy value.
+ */
+function when(predicate: () => boolean) {
+	return new Promise<void>((resolve) => {
+		if (predicate()) return resolve();
+		const dispose: Disposer = reaction(predicate, (value) => {
+			if (!value) return;
+			dispose();
+			resolve();
+		});
+	});
+}
+
+function findProfile(store: Store, idOrTitle: string): Profile {
+	const byId = store.profiles.byId().get(idOrTitle);
+	if (byId) return byId;
+
+	const byTitle = store.profiles.all().filter((profile) => profile.title() === idOrTitle);
+	if (byTitle.length === 1) return byTitle[0]!;
+	if (byTitle.length > 1) {
+		throw new Error(
+			`There are multiple profiles titled "${idOrTitle}", use one of their IDs instead: ${byTitle
+				.map((profile) => profile.id)
+				.join(', ')}`
+		);
+	}
+
+	throw new Error(`Profile "${idOrTitle}" not found.`);
+}
+
+/**
+ * Streams operation's state, logs, progress, and outputs to stdout.
+ */
+function watchOperation(operation: Operation, onError: () => void) {
+	const id = operation.id;
+	const profile = operation.profile.id;
+	let printedLogsCount = 0;
+	let outputsCount = 0;
+
+	reaction(
+		() => operation.state(),
+		(state) => {
+			if (state === 'pending') print({type: 'start', operation: id, profile, runs: operation.runs()});
+			if (state === 'done') {
+				print({
+					type: 'done',
+					operation: id,
+					profile,
+					hasError: operation.hasError(),
+					duration: operation.duration(),
+				});
+			}
+		}
+	);
+
+	reaction(
+		() => ({lines: operation.logLines(), trimmed: operation.logsTrimmed()}),
+		({lines, trimmed}: {lines: OperationLogEntry[]; trimmed: number}) => {
+			// Lines trimmed to operationLogLimit before we got to them are lost
+			const newLines = lines.slice(Math.max(0, printedLogsCount - trimmed));
+			printedLogsCount = trimmed + lines.length;
+			for (const {source, text} of newLines) {
+				if (text) print({type: 'log', operation: id, source, line: text});
+			}
+		}
+	);
+
+	reaction(
+		() => ({stage: operation.stage(), progress: operation.progress(), humanProgress: operation.humanProgress()}),
+		throttle((data: {stage: string | null; progress?: number; humanProgress?: string}) => {
+			if (operation.state.value === 'pending') print({type: 'progress', operation: id, ...data});
+		}, 500)
+	);
+
+	reaction(
+		() => operation.outputs(),
+		(outputs) => {
+			for (const {operation: _, ...output} of outputs.slice(outputsCount)) {
+				if (output.kind === 'error') onError();
+				print({...output, type: 'output', operation: id, profile});
+			}
+			outputsCount = outputs.length;
+		}
+	);
+}
+
+async function run(): Promise<number> {
+	const paths = await ipcRenderer.invoke('get-paths');
+	const args: HeadlessRunArgs | null = await ipcRenderer.invoke('get-headless-args');
+	const {userData: userDataPath, app: appPath, isWindowsPortable} = paths || {};
+
+	if (!args) throw new Error(`Headless run arguments missing.`);
+	if (typeof userDataPath !== 'string' || typeof appPath !== 'string' || typeof isWindowsPortable !== 'boolean') {
+		throw new Error(`Invalid app paths returned: ${JSON.stringify(paths)}`);
+	}
+
+	setAppPath(appPath);
+
+	const store = await createStore({userDataPath, appPath, isWindowsPortable, headless: true});
+
+	// Events are normally displayed in the UI, so we print them instead
+	let lastEventId = -1;
+	reaction(
+		() => store.events.all(),
+		(events) => {
+			for (const event of events.filter((event) => event.id > lastEventId).reverse()) {
+				printError(
+					[`${event.variant.toUpperCase()}: ${event.title}`, event.message, event.details]
+						.filter(Boolean)
+						.join('\n')
+				);
+			}
+			lastEventId = events[0]?.id ?? lastEventId;
+		}
+	);
+
+	if (!store.node.isReady()) {
+		throw new Error(`Node.js is not installed. Launch the app normally to finish the setup.`);
+	}
+
+	const profile = findProfile(store, args.profile);
+
+	await when(() => !profile.dependenciesLoading());
+
+	const issues = profile.issues();
+	if (issues.length > 0 || !profile.isReady()) {
+		throw new Error(
+			`Profile "${profile.displayTitle()}" is not ready:${issues.map((issue) => `\n- ${issue.title}`).join('')}`
+		);
+	}
+
+	// Options are never saved in headless mode, so we can just override them
+	if (args.options) action(() => profile.optionsData({...profile.optionsData(), ...args.options}));
+
+	const items: Item[] = [];
+	for (const path of args.paths) items.push(await serialize.file(Path.resolve(args.cwd, path)));
+
+	// Watch all operations, including ones created by chained profiles
+	let operationsCount = 0;
+	let errorsCount = 0;
+	const watched = new Set<Operation>();
+	reaction(
+		() => store.operations.all(),
+		(operations) => {
+			for (const operation of operations) {
+				if (watched.has(operation)) continue;
+				watched.add(operation);
+				operationsCount++;
+				watchOperation(operation, () => errorsCount++);
+			}
+		}
+	);
+
+	await profile.dropItems(items, {action: 'drop', modifiers: ''});
+
+	if (operationsCount === 0) {
+		throw new Error(`Profile "${profile.displayTitle()}" didn't accept any of the passed items.`);
+	}
+
+	// Outputs are handled asynchronously and might still chain into other
+	// profiles after the last operation ended, so we wait for things to settle.
+	const isIdle = () =>
+		store.operations.queued().length === 0 &&
+		store.operations.pending().length === 0 &&
+		!store.profiles.all().some((profile) => profile.isAdding());
+	do {
+		await when(isIdle);
+		await new Promise((resolve) => setTimeout(resolve, 300));
+	} while (!isIdle());
+
+	print({type: 'summary', operations: operationsCount, errors: errorsCount});
+
+	return errorsCount > 0 ? 1 : 0;
+}
+
+addEventListener('unhandledrejection', (event) => printError(eem(event.reason, true)));
+addEventListener('error', (event) => printError(eem(event.error, true)));
+
+run().then(exit, (error) => {
+	printError(eem(error));
+	exit(1);
+});